@@ -0,0 +1,81 @@
+/**
+ * Well-known BioStudies collections
+ * Used as a fallback when collection data cannot be retrieved from the live API
+ */
+
+import { KnownCollection } from '../types/biostudies.js';
+
+export const KNOWN_COLLECTIONS: KnownCollection[] = [
+  {
+    key: 'arrayexpress',
+    name: 'ArrayExpress',
+    description: 'Functional genomics experiments including gene expression data',
+    accessionPattern: 'E-MTAB-####, E-GEOD-####, E-MEXP-####',
+    url: 'https://www.ebi.ac.uk/biostudies/arrayexpress',
+    examples: ['E-MTAB-7249', 'E-MTAB-6819', 'E-MTAB-5061']
+  },
+  {
+    key: 'bioimages',
+    name: 'BioImages',
+    description: 'Biological imaging data from light and electron microscopy',
+    accessionPattern: 'S-BIAD####',
+    url: 'https://www.ebi.ac.uk/biostudies/bioimages',
+    examples: ['S-BIAD423', 'S-BIAD424', 'S-BIAD425']
+  },
+  {
+    key: 'empiar',
+    name: 'EMPIAR',
+    description: 'Electron Microscopy Public Image Archive',
+    accessionPattern: 'EMPIAR-#####',
+    url: 'https://www.ebi.ac.uk/empiar/',
+    examples: ['EMPIAR-10001', 'EMPIAR-10002', 'EMPIAR-10003']
+  },
+  {
+    key: 'biostudies',
+    name: 'BioStudies General',
+    description: 'General biological studies and multi-omics data',
+    accessionPattern: 'S-BSST####',
+    url: 'https://www.ebi.ac.uk/biostudies/studies',
+    examples: ['S-BSST1', 'S-BSST2', 'S-BSST3']
+  },
+  {
+    key: 'europepmc',
+    name: 'Europe PMC',
+    description: 'Supplementary data from articles in Europe PMC',
+    accessionPattern: 'S-EPMC####',
+    url: 'https://www.ebi.ac.uk/biostudies/europepmc',
+    examples: ['S-EPMC3541327', 'S-EPMC4054321', 'S-EPMC5390632']
+  },
+  {
+    key: 'idr',
+    name: 'Image Data Resource',
+    description: 'Reference image datasets published in the IDR',
+    accessionPattern: 'S-BIAD####',
+    url: 'https://www.ebi.ac.uk/biostudies/idr',
+    examples: []
+  },
+  {
+    key: 'hecatos',
+    name: 'HeCaToS',
+    description: 'Hepatic and cardiac toxicity systems modelling project data',
+    accessionPattern: 'S-HECA####',
+    url: 'https://www.ebi.ac.uk/biostudies/hecatos',
+    examples: []
+  },
+  {
+    key: 'eu-toxrisk',
+    name: 'EU-ToxRisk',
+    description: 'Mechanism-based toxicity testing and risk assessment project data',
+    accessionPattern: 'S-TOXR####',
+    url: 'https://www.ebi.ac.uk/biostudies/eu-toxrisk',
+    examples: []
+  },
+  {
+    key: 'jcb',
+    name: 'Journal of Cell Biology',
+    description: 'Source data for figures published in the Journal of Cell Biology',
+    accessionPattern: 'S-JCB####',
+    url: 'https://www.ebi.ac.uk/biostudies/jcb',
+    examples: []
+  }
+];
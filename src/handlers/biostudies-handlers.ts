@@ -2,24 +2,126 @@
  * BioStudies Tool Handlers - Implementation of MCP tools for BioStudies functionality
  */
 
-import { BioStudiesApiClient } from '../utils/api-client.js';
-import { SearchParams, FileSearchParams, AuthCredentials, Attribute } from '../types/biostudies.js';
+import { promises as fs } from 'node:fs';
+import { join } from 'node:path';
+import { ReadableStream } from 'node:stream/web';
+import { BioStudiesApiClient, MAX_BATCH_SIZE } from '../utils/api-client.js';
+import { AuthManager } from '../utils/auth-manager.js';
+import {
+  DEFAULT_CREDENTIALS_FILE,
+  DEFAULT_DOWNLOAD_DIRECTORY,
+  DEFAULT_KEYRING_FILE,
+  DEFAULT_TIMEOUT
+} from '../utils/config.js';
+import { StudyKeyring } from '../utils/study-keyring.js';
+import { isRetryableStatus } from '../utils/retry-policy.js';
+import { verifyLocalFiles } from '../utils/file-verifier.js';
+import {
+  DEFAULT_DOWNLOAD_CONCURRENCY,
+  DownloadFile,
+  FileDownloader,
+  MAX_DOWNLOAD_CONCURRENCY,
+  selectFiles
+} from '../utils/file-downloader.js';
+import {
+  MANIFEST_FORMATS,
+  MAX_MANIFEST_STUDIES,
+  ManifestEntry,
+  ManifestFormat,
+  asperaCommand,
+  buildManifest
+} from '../utils/download-manifest.js';
+import {
+  EXPORT_FILENAMES,
+  EXPORT_FORMATS,
+  ExportFormat,
+  toRoCrateMetadata,
+  toSchemaOrgDataset
+} from '../utils/metadata-export.js';
+import {
+  CITATION_FORMATS,
+  CitationFormat,
+  formatCitations,
+  studyCitations,
+  studyLandingPage
+} from '../utils/citation-formatter.js';
+import {
+  buildExperimentDesign,
+  isIdfFile,
+  isSdrfFile,
+  parseIdf,
+  parseSdrf,
+  querySamples
+} from '../utils/mage-tab.js';
+import {
+  DEFAULT_MATRIX_SCAN_BYTES,
+  findMatrixCandidates,
+  matchColumnsToDesign,
+  scanMatrix
+} from '../utils/matrix-preview.js';
+import { collectSectionContents, normalizeFile, sectionLabel } from '../utils/section-walker.js';
+import { KNOWN_COLLECTIONS } from '../data/known-collections.js';
+import {
+  SearchParams,
+  FileSearchParams,
+  AuthStatus,
+  Attribute,
+  Facet,
+  Collection,
+  CollectionList,
+  PaginationInfo,
+  Publication,
+  RequestOptions,
+  ApiResponse,
+  MageTabIdf,
+  SdrfTable
+} from '../types/biostudies.js';
+
+/**
+ * Per-call context passed from the MCP request to the handlers
+ */
+export interface ToolContext {
+  signal?: AbortSignal;
+  reportProgress?: (progress: number, total: number, message?: string) => Promise<void>;
+}
+
+/**
+ * Invalid tool arguments; reported to the client as an InvalidParams protocol error rather than a tool error
+ */
+export class ToolArgumentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolArgumentError';
+  }
+}
 
 export class BioStudiesHandlers {
   private apiClient: BioStudiesApiClient;
-
-  constructor() {
-    this.apiClient = new BioStudiesApiClient();
+  private auth: AuthManager;
+  private keyring: StudyKeyring;
+  private downloader: FileDownloader;
+
+  constructor(
+    apiClient?: BioStudiesApiClient,
+    auth?: AuthManager,
+    keyring: StudyKeyring = new StudyKeyring(DEFAULT_KEYRING_FILE),
+    downloader?: FileDownloader
+  ) {
+    this.keyring = keyring;
+    this.apiClient = apiClient ?? new BioStudiesApiClient({ keyring });
+    this.auth = auth ?? new AuthManager(this.apiClient, { credentialsFile: DEFAULT_CREDENTIALS_FILE });
+    this.downloader = downloader ?? new FileDownloader(this.apiClient, {
+      directory: DEFAULT_DOWNLOAD_DIRECTORY,
+      timeout: DEFAULT_TIMEOUT
+    });
   }
 
   /**
-   * Search for studies by keywords, authors, or other criteria
-   * Note: EBI BioStudies search API is currently unavailable (404 error)
-   * This provides helpful alternatives for study discovery
+   * Search for studies by keywords, authors, collection or facet values
    */
-  async searchStudies(args: any) {
-    if (!args.query && !args.collection && !args.author) {
-      throw new Error('At least one search parameter (query, collection, or author) is required');
+  async searchStudies(args: any, context: ToolContext = {}) {
+    if (!args.query && !args.collection && !args.author && !args.facets) {
+      throw new ToolArgumentError('At least one search parameter (query, collection, author, or facets) is required');
     }
 
     const searchParams: SearchParams = {
@@ -28,7 +130,8 @@ export class BioStudiesHandlers {
       type: args.type,
       author: args.author,
       keywords: args.keywords && Array.isArray(args.keywords) ? args.keywords : undefined,
-      page: args.page && typeof args.page === 'number' ? args.page : 0,
+      facets: this.parseFacetFilters(args.facets),
+      page: args.page && typeof args.page === 'number' ? Math.max(args.page, 1) : 1,
       size: args.size && typeof args.size === 'number' ? Math.min(args.size, 100) : 20,
       sortBy: args.sortBy,
       sortOrder: args.sortOrder,
@@ -36,12 +139,7 @@ export class BioStudiesHandlers {
       releaseDateTo: args.releaseDateTo
     };
 
-    const result = await this.apiClient.searchStudies(searchParams);
-
-    // If API endpoint is unavailable (404), provide helpful fallback
-    if (result.error && result.status === 404) {
-      return this.provideSearchAlternatives(searchParams);
-    }
+    const result = await this.apiClient.searchStudies(searchParams, this.requestOptions(args, context));
 
     if (result.error) {
       return {
@@ -55,12 +153,11 @@ export class BioStudiesHandlers {
 
     const response = result.data;
     if (!response || response.hits.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No studies found matching the search criteria`
-        }]
-      };
+      return this.toolResult(
+        args,
+        `No studies found matching the search criteria`,
+        response || { hits: [], totalHits: 0 }
+      );
     }
 
     const studies = response.hits;
@@ -83,6 +180,13 @@ export class BioStudiesHandlers {
         output += `\n  Released: ${study.releaseDate}`;
       }
 
+      if (study.fileCount || study.linkCount) {
+        const counts = [];
+        if (study.fileCount) counts.push(`${study.fileCount} files`);
+        if (study.linkCount) counts.push(`${study.linkCount} links`);
+        output += `\n  Contents: ${counts.join(', ')}`;
+      }
+
       if (study.views || study.downloads) {
         const stats = [];
         if (study.views) stats.push(`${study.views} views`);
@@ -93,29 +197,113 @@ export class BioStudiesHandlers {
       return output;
     }).join('\n\n');
 
-    const pagination = response.page > 0 || studies.length >= (searchParams.size || 20)
-      ? `\n\nPage ${response.page + 1}, showing ${studies.length} of ${response.totalHits} total results.`
-      : studies.length < response.totalHits
-        ? `\n\nShowing first ${studies.length} of ${response.totalHits} total results.`
-        : '';
+    const pagination = response.pagination && response.pagination.totalPages > 1
+      ? `\n\n${this.formatPagination(response.pagination, studies.length)}`
+      : '';
 
-    return {
-      content: [{
-        type: "text",
-        text: `Found ${response.totalHits} studies:\n\n${formattedResults}${pagination}`
-      }]
+    const facets = response.facets?.length
+      ? `\n\n${this.formatFacets(response.facets, 5)}`
+      : '';
+
+    return this.toolResult(
+      args,
+      `Found ${response.totalHits} studies:\n\n${formattedResults}${pagination}${facets}`,
+      response
+    );
+  }
+
+  /**
+   * List the facets available for a query or collection, with value counts
+   */
+  async listFacets(args: any, context: ToolContext = {}) {
+    if (!args.query && !args.collection) {
+      throw new ToolArgumentError('At least one parameter (query or collection) is required');
+    }
+
+    const searchParams: SearchParams = {
+      query: args.query,
+      collection: args.collection,
+      facets: this.parseFacetFilters(args.facets)
+    };
+    const limit = args.limit && typeof args.limit === 'number' ? Math.min(args.limit, 100) : 10;
+
+    const result = await this.apiClient.getFacets(searchParams, this.requestOptions(args, context));
+
+    if (result.error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error retrieving facets: ${result.error}`
+        }],
+        isError: true
+      };
+    }
+
+    let facets = (result.data || []).filter(facet => facet.values.length > 0);
+    if (args.facet && typeof args.facet === 'string') {
+      const wanted = args.facet.replace(/^facet\./, '').toLowerCase();
+      facets = facets.filter(facet =>
+        facet.name.toLowerCase() === wanted || facet.title?.toLowerCase() === wanted
+      );
+    }
+
+    const data = {
+      query: args.query,
+      collection: args.collection,
+      appliedFilters: searchParams.facets,
+      facets
     };
+
+    if (facets.length === 0) {
+      return this.toolResult(
+        args,
+        args.facet
+          ? `Facet "${args.facet}" is not available for the given query or collection`
+          : `No facets available for the given query or collection`,
+        data
+      );
+    }
+
+    const scope = [
+      args.collection ? `collection "${args.collection}"` : '',
+      args.query ? `query "${args.query}"` : ''
+    ].filter(Boolean).join(', ');
+
+    let output = `**Facets for ${scope}**\n\n`;
+
+    if (searchParams.facets) {
+      const applied = Object.entries(searchParams.facets)
+        .map(([name, values]) => `${name} = ${values.join(' | ')}`)
+        .join('; ');
+      output += `Applied filters: ${applied}\n\n`;
+    }
+
+    output += facets.map(facet => {
+      let facetOutput = `• **${facet.title || facet.name}** (\`${facet.name}\`, ${facet.values.length} values)`;
+      facet.values.slice(0, limit).forEach(value => {
+        facetOutput += `\n    - ${value.value}: ${value.count.toLocaleString()}`;
+      });
+      if (facet.values.length > limit) {
+        facetOutput += `\n    ... and ${facet.values.length - limit} more values`;
+      }
+      return facetOutput;
+    }).join('\n\n');
+
+    const example = facets[0];
+    output += `\n\n**Filtering:** pass \`facets: { "${example.name}": ["${example.values[0].value}"] }\` to \`search_studies\` or \`list_facets\` to narrow results.`;
+
+    return this.toolResult(args, output, data);
   }
 
   /**
    * Get detailed information about a specific study
    */
-  async getStudyDetails(args: any) {
+  async getStudyDetails(args: any, context: ToolContext = {}) {
     if (!args.accno || typeof args.accno !== 'string') {
-      throw new Error('Study accession number is required and must be a string');
+      throw new ToolArgumentError('Study accession number is required and must be a string');
     }
 
-    const result = await this.apiClient.getStudyDetails(args.accno);
+    const result = await this.apiClient.getStudyDetails(args.accno, this.requestOptions(args, context));
 
     if (result.error) {
       return {
@@ -133,115 +321,132 @@ export class BioStudiesHandlers {
         content: [{
           type: "text",
           text: `Study ${args.accno} not found`
-        }]
+        }],
+        isError: true
       };
     }
 
-    // Extract title from attributes if not in main object
-    const titleAttr = study.attributes?.find(attr => attr.name === 'Title');
-    const title = study.title || titleAttr?.value || 'Title not available';
+    const title = study.title || 'Title not available';
+    const summaryAttributes = ['Title', 'ReleaseDate', 'AttachTo', 'Description'];
 
     let output = `**Study: ${study.accno}**\n`;
-    output += `**Title:** ${title}\n\n`;
+    output += `**Title:** ${title}\n`;
+    if (study.collection) output += `**Collection:** ${study.collection}\n`;
+    if (study.releaseDate) output += `**Released:** ${study.releaseDate}\n`;
+    if (study.type) output += `**Study Type:** ${study.type}\n`;
+    if (result.keySource) output += `**Access:** 🔑 Private study opened with a ${this.keyDescription(result.keySource)}\n`;
+    output += '\n';
 
-    // Extract and display all top-level attributes
-    if (study.attributes?.length) {
-      output += `**Study Attributes:**\n`;
-      study.attributes.forEach(attr => {
-        if (attr.name !== 'Title') { // Don't repeat title
-          output += `  • **${attr.name}:** ${attr.value}\n`;
-        }
+    if (study.description) {
+      output += `**Description:** ${study.description}\n\n`;
+    }
+
+    if (study.authors?.length) {
+      output += `**Authors:**\n`;
+      study.authors.forEach(author => {
+        output += `  • ${author.name}`;
+        if (author.affiliation) output += ` (${author.affiliation})`;
+        if (author.orcid) output += ` [ORCID: ${author.orcid}]`;
+        if (author.roles?.length) output += ` - ${author.roles.join(', ')}`;
+        output += '\n';
+      });
+      output += '\n';
+    }
+
+    if (study.publications?.length) {
+      output += `**Publications:**\n`;
+      study.publications.forEach(publication => {
+        output += `  • ${this.formatPublication(publication)}\n`;
+      });
+      output += '\n';
+    }
+
+    if (study.funding?.length) {
+      output += `**Funding:**\n`;
+      study.funding.forEach(funding => {
+        output += `  • ${funding.agency}${funding.grantId ? ` (${funding.grantId})` : ''}\n`;
       });
       output += '\n';
     }
 
-    if (study.type) {
-      output += `**Study Type:** ${study.type}\n\n`;
+    if (study.tags?.length) {
+      output += `**Keywords:** ${study.tags.join(', ')}\n\n`;
+    }
+
+    // Display remaining top-level attributes
+    const otherAttributes = study.attributes?.filter(attr => !summaryAttributes.includes(attr.name)) || [];
+    if (otherAttributes.length) {
+      output += `**Study Attributes:**\n`;
+      otherAttributes.forEach(attr => {
+        output += `  • **${attr.name}:** ${attr.value}\n`;
+      });
+      output += '\n';
     }
 
     // Process section data (this contains most of the rich content)
     if (study.section) {
-      if (study.section.attributes?.length) {
+      const contents = collectSectionContents(study.section);
+      const rootPath = contents.sections[0]?.path;
+
+      const sectionAttributes = study.section.attributes?.filter(attr => !summaryAttributes.includes(attr.name)) || [];
+      if (sectionAttributes.length) {
         output += `**Section Details:**\n`;
-        study.section.attributes.forEach(attr => {
+        sectionAttributes.forEach(attr => {
           output += `  • **${attr.name}:** ${attr.value}\n`;
         });
         output += '\n';
       }
 
-      // Display section links
-      if (study.section.links?.length) {
+      // Display links from every level of the section tree
+      if (contents.links.length) {
         output += `**External References:**\n`;
-        study.section.links.forEach((link, index) => {
-          if (typeof link === 'object' && link.url) {
-            output += `  ${index + 1}. ${link.url}\n`;
-          } else if (Array.isArray(link)) {
-            // Handle nested link arrays
-            link.forEach((subLink, subIndex) => {
-              if (subLink.url) {
-                output += `  ${index + 1}.${subIndex + 1}. ${subLink.url}\n`;
-                if (subLink.attributes?.length) {
-                  subLink.attributes.forEach((attr: Attribute) => {
-                    output += `       ${attr.name}: ${attr.value}\n`;
-                  });
-                }
-              }
-            });
-          }
+        contents.links.forEach((link, index) => {
+          output += `  ${index + 1}. ${link.url}`;
+          if (link.sectionPath !== rootPath) output += ` (in ${link.sectionPath})`;
+          output += '\n';
+          link.attributes?.forEach((attr: Attribute) => {
+            output += `       ${attr.name}: ${attr.value}\n`;
+          });
         });
         output += '\n';
       }
 
-      // Display section files
-      if (study.section.files?.length) {
-        output += `**Associated Files:**\n`;
-        study.section.files.slice(0, 10).forEach(file => {
-          output += `  • ${file.name || file.path}`;
+      // Display files from every level of the section tree
+      if (contents.files.length) {
+        output += `**Associated Files:** ${contents.files.length} files\n`;
+        contents.files.slice(0, 10).forEach(file => {
+          output += `  • ${file.path}`;
           if (file.size) output += ` (${this.formatFileSize(file.size)})`;
-          if (file.type) output += ` [${file.type}]`;
+          if (file.type && file.type !== 'file') output += ` [${file.type}]`;
+          if (file.sectionPath !== rootPath) output += ` (in ${file.sectionPath})`;
           output += '\n';
         });
-        if (study.section.files.length > 10) {
-          output += `  ... and ${study.section.files.length - 10} more files\n`;
+        if (contents.files.length > 10) {
+          output += `  ... and ${contents.files.length - 10} more files (use \`get_study_files\` to list all)\n`;
         }
         output += '\n';
       }
 
-      // Display subsections if present
-      if (study.section.subsections?.length) {
-        output += `**Subsections:** ${study.section.subsections.length} subsections available\n`;
-        study.section.subsections.slice(0, 5).forEach((subsection, index) => {
-          if (subsection.type) {
-            output += `  ${index + 1}. ${subsection.type}`;
-            if (subsection.attributes?.length) {
-              output += ` (${subsection.attributes.length} attributes)`;
-            }
-            output += '\n';
-          }
+      // Display the subsection tree
+      const subsections = contents.sections.slice(1);
+      if (subsections.length) {
+        output += `**Subsections:** ${subsections.length} subsections available\n`;
+        subsections.slice(0, 15).forEach(subsection => {
+          output += `${'  '.repeat(subsection.depth)}• ${sectionLabel(subsection)}`;
+          const counts = [];
+          if (subsection.attributeCount) counts.push(`${subsection.attributeCount} attributes`);
+          if (subsection.fileCount) counts.push(`${subsection.fileCount} files`);
+          if (subsection.linkCount) counts.push(`${subsection.linkCount} links`);
+          if (counts.length) output += ` (${counts.join(', ')})`;
+          output += '\n';
         });
-        if (study.section.subsections.length > 5) {
-          output += `  ... and ${study.section.subsections.length - 5} more subsections\n`;
+        if (subsections.length > 15) {
+          output += `  ... and ${subsections.length - 15} more subsections\n`;
         }
         output += '\n';
       }
     }
 
-    // Legacy fields (for backward compatibility)
-    if (study.authors?.length) {
-      output += `**Authors:**\n`;
-      study.authors.forEach(author => {
-        output += `  • ${author.name}`;
-        if (author.affiliation) output += ` (${author.affiliation})`;
-        if (author.orcid) output += ` [ORCID: ${author.orcid}]`;
-        output += '\n';
-      });
-      output += '\n';
-    }
-
-    if (study.description) {
-      output += `**Description:** ${study.description}\n\n`;
-    }
-
     if (study.views || study.downloads) {
       const stats = [];
       if (study.views) stats.push(`${study.views} views`);
@@ -249,46 +454,34 @@ export class BioStudiesHandlers {
       output += `**Statistics:** ${stats.join(', ')}\n`;
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output.trim()
-      }]
-    };
+    // The raw section tree is summarized by files, links and attributes
+    const { section, ...details } = study;
+
+    return this.toolResult(args, output.trim(), { ...details, accessedWithKey: !!result.keySource });
   }
 
   /**
    * Get all available collections
-   * Note: EBI BioStudies collections API is currently unavailable (404 error)
-   * This provides known collection information as fallback
+   * Falls back to the static list of well-known collections if live data is unavailable
    */
-  async listCollections(args: any) {
-    const result = await this.apiClient.getCollections();
+  async listCollections(args: any, context: ToolContext = {}) {
+    const filter = args?.filter && typeof args.filter === 'string' ? args.filter.toLowerCase() : undefined;
+    const list = await this.getCollections(args, context);
 
-    // If API endpoint is unavailable (404), provide known collections as fallback
-    if (result.error && result.status === 404) {
-      return this.provideKnownCollections();
+    if (list.error) {
+      return this.provideKnownCollections(args, list.error, filter);
     }
 
-    if (result.error) {
-      return {
-        content: [{
-          type: "text",
-          text: `Error retrieving collections: ${result.error}`
-        }],
-        isError: true
-      };
-    }
+    const collections = list.collections.filter(collection => !filter || this.matchesCollectionFilter(collection, filter));
 
-    const collections = result.data || [];
+    const data = { source: 'live', collections };
 
     if (collections.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: "No collections found"
-        }]
-      };
+      return this.toolResult(
+        args,
+        filter ? `No collections found matching "${args.filter}"` : "No collections found",
+        data
+      );
     }
 
     const formattedCollections = collections.map(collection => {
@@ -313,26 +506,45 @@ export class BioStudiesHandlers {
       return output;
     }).join('\n\n');
 
+    return this.toolResult(
+      args,
+      `Available Collections (${collections.length} total):\n\n${formattedCollections}\n\nUse \`get_collection_studies\` with a collection key to page through its studies.`,
+      data
+    );
+  }
+
+  /**
+   * Live collections with descriptions filled in from the known collections,
+   * or the known collections alone when the API cannot be reached
+   */
+  async getCollections(args: any, context: ToolContext = {}): Promise<CollectionList> {
+    const result = await this.apiClient.getCollections(this.requestOptions(args, context));
+    if (result.error) {
+      return { source: 'fallback', error: result.error, collections: KNOWN_COLLECTIONS };
+    }
+
+    const known = new Map(KNOWN_COLLECTIONS.map(collection => [collection.key, collection]));
     return {
-      content: [{
-        type: "text",
-        text: `Available Collections (${collections.length} total):\n\n${formattedCollections}`
-      }]
+      source: 'live',
+      collections: (result.data || []).map(collection => ({
+        ...collection,
+        description: collection.description || known.get(collection.key)?.description
+      }))
     };
   }
 
   /**
-   * Get studies from a specific collection
+   * Get studies from a specific collection, one page at a time
    */
-  async getCollectionStudies(args: any) {
+  async getCollectionStudies(args: any, context: ToolContext = {}) {
     if (!args.collection || typeof args.collection !== 'string') {
-      throw new Error('Collection key is required and must be a string');
+      throw new ToolArgumentError('Collection key is required and must be a string');
     }
 
-    const page = args.page && typeof args.page === 'number' ? args.page : 0;
+    const page = args.page && typeof args.page === 'number' ? Math.max(args.page, 1) : 1;
     const size = args.size && typeof args.size === 'number' ? Math.min(args.size, 100) : 20;
 
-    const result = await this.apiClient.getCollectionStudies(args.collection, page, size);
+    const result = await this.apiClient.getCollectionStudies(args.collection, page, size, this.requestOptions(args, context));
 
     if (result.error) {
       return {
@@ -346,12 +558,14 @@ export class BioStudiesHandlers {
 
     const response = result.data;
     if (!response || response.hits.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No studies found in collection: ${args.collection}`
-        }]
-      };
+      const beyondEnd = response?.pagination && page > response.pagination.totalPages && response.pagination.totalPages > 0;
+      return this.toolResult(
+        args,
+        beyondEnd
+          ? `Page ${page} is beyond the last page (${response!.pagination!.totalPages}) of collection: ${args.collection}`
+          : `No studies found in collection: ${args.collection}`,
+        { collection: args.collection, ...(response || { hits: [], totalHits: 0 }) }
+      );
     }
 
     const studies = response.hits;
@@ -369,26 +583,21 @@ export class BioStudiesHandlers {
       return output;
     }).join('\n\n');
 
-    const pagination = page > 0 || studies.length >= size
-      ? `\n\nPage ${page + 1}, showing ${studies.length} of ${response.totalHits} total studies in ${args.collection}.`
-      : studies.length < response.totalHits
-        ? `\n\nShowing first ${studies.length} of ${response.totalHits} total studies in ${args.collection}.`
-        : '';
+    const pagination = response.pagination ? `\n\n${this.formatPagination(response.pagination, studies.length)}` : '';
 
-    return {
-      content: [{
-        type: "text",
-        text: `Studies in collection "${args.collection}" (${response.totalHits} total):\n\n${formattedResults}${pagination}`
-      }]
-    };
+    return this.toolResult(
+      args,
+      `Studies in collection "${args.collection}" (${response.totalHits.toLocaleString()} total):\n\n${formattedResults}${pagination}`,
+      { collection: args.collection, ...response }
+    );
   }
 
   /**
    * Search for files within studies
    */
-  async searchFiles(args: any) {
+  async searchFiles(args: any, context: ToolContext = {}) {
     if (!args.accno && !args.name && !args.type) {
-      throw new Error('At least one search parameter (accno, name, or type) is required');
+      throw new ToolArgumentError('At least one search parameter (accno, name, or type) is required');
     }
 
     const searchParams: FileSearchParams = {
@@ -400,7 +609,7 @@ export class BioStudiesHandlers {
       maxSize: args.maxSize && typeof args.maxSize === 'number' ? args.maxSize : undefined
     };
 
-    const result = await this.apiClient.searchFiles(searchParams);
+    const result = await this.apiClient.searchFiles(searchParams, this.requestOptions(args, context));
 
     if (result.error) {
       return {
@@ -457,16 +666,16 @@ export class BioStudiesHandlers {
    * Get files associated with a specific study
    * Note: If dedicated files API is unavailable, this extracts file info from study metadata
    */
-  async getStudyFiles(args: any) {
+  async getStudyFiles(args: any, context: ToolContext = {}) {
     if (!args.accno || typeof args.accno !== 'string') {
-      throw new Error('Study accession number is required and must be a string');
+      throw new ToolArgumentError('Study accession number is required and must be a string');
     }
 
-    const result = await this.apiClient.getStudyFiles(args.accno);
+    const result = await this.apiClient.getStudyFiles(args.accno, this.requestOptions(args, context));
 
     // If API endpoint is unavailable (404), try extracting files from study metadata
     if (result.error && result.status === 404) {
-      return this.extractFilesFromStudyMetadata(args.accno);
+      return this.extractFilesFromStudyMetadata(args, context);
     }
 
     if (result.error) {
@@ -479,15 +688,12 @@ export class BioStudiesHandlers {
       };
     }
 
-    const files = result.data || [];
+    const files = (result.data || []).map(normalizeFile);
+    const totalSize = files.reduce((sum, file) => sum + (file.size || 0), 0);
+    const data = { accno: args.accno, source: 'api', totalFiles: files.length, totalSize, files };
 
     if (files.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No files found for study ${args.accno}`
-        }]
-      };
+      return this.toolResult(args, `No files found for study ${args.accno}`, data);
     }
 
     const formattedFiles = files.map(file => {
@@ -508,26 +714,32 @@ export class BioStudiesHandlers {
       return output;
     }).join('\n\n');
 
-    const totalSize = files.reduce((sum, file) => sum + (file.size || 0), 0);
     const sizeInfo = totalSize > 0 ? `\nTotal size: ${this.formatFileSize(totalSize)}` : '';
 
-    return {
-      content: [{
-        type: "text",
-        text: `Files in study ${args.accno} (${files.length} files):${sizeInfo}\n\n${formattedFiles}`
-      }]
-    };
+    return this.toolResult(
+      args,
+      `Files in study ${args.accno} (${files.length} files):${sizeInfo}\n\n${formattedFiles}`,
+      data
+    );
   }
 
   /**
    * Get external links for a study
    */
-  async getStudyLinks(args: any) {
+  async getStudyLinks(args: any, context: ToolContext = {}) {
     if (!args.accno || typeof args.accno !== 'string') {
-      throw new Error('Study accession number is required and must be a string');
+      throw new ToolArgumentError('Study accession number is required and must be a string');
     }
 
-    const result = await this.apiClient.getStudyLinks(args.accno);
+    let result = await this.apiClient.getStudyLinks(args.accno, this.requestOptions(args, context));
+
+    // If API endpoint is unavailable (404), collect links from the study section tree
+    if (result.error && result.status === 404) {
+      const studyResult = await this.apiClient.getStudyDetails(args.accno, this.requestOptions(args, context));
+      result = studyResult.error
+        ? { error: studyResult.error, status: studyResult.status }
+        : { data: collectSectionContents(studyResult.data?.section).links, status: studyResult.status };
+    }
 
     if (result.error) {
       return {
@@ -540,14 +752,10 @@ export class BioStudiesHandlers {
     }
 
     const links = result.data || [];
+    const data = { accno: args.accno, totalLinks: links.length, links };
 
     if (links.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: `No external links found for study ${args.accno}`
-        }]
-      };
+      return this.toolResult(args, `No external links found for study ${args.accno}`, data);
     }
 
     const formattedLinks = links.map((link, index) => {
@@ -558,26 +766,29 @@ export class BioStudiesHandlers {
         output += `\n   ${attrs}`;
       }
 
+      if (link.sectionPath) {
+        output += `\n   Section: ${link.sectionPath}`;
+      }
+
       return output;
     }).join('\n\n');
 
-    return {
-      content: [{
-        type: "text",
-        text: `External links for study ${args.accno} (${links.length} links):\n\n${formattedLinks}`
-      }]
-    };
+    return this.toolResult(
+      args,
+      `External links for study ${args.accno} (${links.length} links):\n\n${formattedLinks}`,
+      data
+    );
   }
 
   /**
    * Validate a study accession number
    */
-  async validateStudyAccession(args: any) {
+  async validateStudyAccession(args: any, context: ToolContext = {}) {
     if (!args.accno || typeof args.accno !== 'string') {
-      throw new Error('Accession number is required and must be a string');
+      throw new ToolArgumentError('Accession number is required and must be a string');
     }
 
-    const result = await this.apiClient.validateStudyAccession(args.accno);
+    const result = await this.apiClient.validateStudyAccession(args.accno, this.requestOptions(args, context));
 
     if (result.error) {
       return {
@@ -592,21 +803,19 @@ export class BioStudiesHandlers {
     const validation = result.data!;
 
     if (!validation.isValid) {
-      return {
-        content: [{
-          type: "text",
-          text: `❌ Invalid accession number format: "${args.accno}"\n\nValid formats include:\n• S-BSST#### (BioStudies)\n• E-MTAB-#### (ArrayExpress)\n• EMPIAR-#### (EMPIAR)\n• S-BIAD#### (BioImages)`
-        }]
-      };
+      return this.toolResult(
+        args,
+        `❌ Invalid accession number format: "${args.accno}"\n\nValid formats include:\n• S-BSST#### (BioStudies)\n• E-MTAB-#### (ArrayExpress)\n• EMPIAR-#### (EMPIAR)\n• S-BIAD#### (BioImages)`,
+        validation
+      );
     }
 
     if (!validation.exists) {
-      return {
-        content: [{
-          type: "text",
-          text: `⚠️ Valid format but study not found: "${args.accno}"\n\nThe accession number format is correct but no study exists with this identifier.`
-        }]
-      };
+      return this.toolResult(
+        args,
+        `⚠️ Valid format but study not found: "${args.accno}"\n\nThe accession number format is correct but no study exists with this identifier.`,
+        validation
+      );
     }
 
     let output = `✅ Valid study accession: "${args.accno}"\n`;
@@ -618,43 +827,57 @@ export class BioStudiesHandlers {
     }
     if (validation.isPublic !== undefined) {
       output += `Access: ${validation.isPublic ? 'Public' : 'Restricted'}`;
+      if (validation.accessedWithKey) output += ' (opened with a secret access key)';
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
-    };
+    return this.toolResult(args, output, validation);
   }
 
   /**
-   * Batch retrieve multiple studies
+   * Batch retrieve multiple studies, reporting progress as each study completes
    */
-  async batchGetStudies(args: any) {
+  async batchGetStudies(args: any, context: ToolContext = {}) {
     if (!args.accessions || !Array.isArray(args.accessions)) {
-      throw new Error('Accessions parameter is required and must be an array of strings');
+      throw new ToolArgumentError('Accessions parameter is required and must be an array of strings');
     }
 
     if (args.accessions.length === 0) {
-      return {
-        content: [{
-          type: "text",
-          text: "No accession numbers provided"
-        }]
-      };
+      return this.toolResult(args, "No accession numbers provided", {
+        successful: [],
+        failed: [],
+        total: 0,
+        successCount: 0,
+        failureCount: 0,
+        durationMs: 0,
+        items: [],
+        studies: []
+      });
     }
 
-    if (args.accessions.length > 50) {
+    if (args.accessions.length > MAX_BATCH_SIZE) {
       return {
         content: [{
           type: "text",
-          text: "Maximum 50 studies can be processed at once"
-        }]
+          text: `Maximum ${MAX_BATCH_SIZE} studies can be processed at once`
+        }],
+        isError: true
       };
     }
 
-    const result = await this.apiClient.batchGetStudies(args.accessions);
+    if (args.keys !== undefined && (typeof args.keys !== 'object' || Array.isArray(args.keys) ||
+        Object.values(args.keys).some(key => typeof key !== 'string'))) {
+      throw new ToolArgumentError('Keys must be an object mapping accession numbers to secret access keys');
+    }
+
+    const total = args.accessions.length;
+    const result = await this.apiClient.batchGetStudies(
+      args.accessions,
+      { ...this.requestOptions(args, context), keys: args.keys },
+      async (item, completed) => {
+        const status = item.status === 'success' ? 'retrieved' : `failed (${item.category})`;
+        await context.reportProgress?.(completed, total, `${item.accno} ${status} - ${completed}/${total}`);
+      }
+    );
 
     if (result.error) {
       return {
@@ -668,13 +891,27 @@ export class BioStudiesHandlers {
 
     const batchResult = result.data!;
 
-    let output = `**Batch Processing Results:**\n\n`;
-    output += `**Summary:** ${batchResult.successCount}/${batchResult.total} studies retrieved successfully\n\n`;
+    const items = new Map((batchResult.items || []).map(item => [item.accno, item]));
 
-    if (batchResult.successful.length > 0) {
-      output += `**Successfully Retrieved (${batchResult.successful.length}):**\n`;
-      batchResult.successful.forEach(accno => {
-        output += `  ✅ ${accno}\n`;
+    let output = `**Batch Processing Results:**\n\n`;
+    output += `**Summary:** ${batchResult.successCount}/${batchResult.total} studies retrieved successfully`;
+    if (batchResult.durationMs !== undefined) {
+      output += ` in ${(batchResult.durationMs / 1000).toFixed(1)}s`;
+    }
+    output += '\n\n';
+
+    if (batchResult.studies?.length) {
+      output += `**Successfully Retrieved (${batchResult.studies.length}):**\n`;
+      batchResult.studies.forEach(study => {
+        output += `  ✅ **${study.accno}**: ${study.title || 'Title not available'}\n`;
+        const details = [];
+        if (study.collection) details.push(study.collection);
+        if (study.releaseDate) details.push(`released ${study.releaseDate}`);
+        if (study.authors.length) {
+          details.push(`${study.authors[0].name}${study.authors.length > 1 ? ' et al.' : ''}`);
+        }
+        if (study.fileCount) details.push(`${study.fileCount} files (${this.formatFileSize(study.totalFileSize)})`);
+        if (details.length) output += `     ${details.join(' · ')}\n`;
       });
       output += '\n';
     }
@@ -682,163 +919,883 @@ export class BioStudiesHandlers {
     if (batchResult.failed.length > 0) {
       output += `**Failed (${batchResult.failed.length}):**\n`;
       batchResult.failed.forEach(failure => {
-        output += `  ❌ ${failure.accno}: ${failure.error}\n`;
+        const item = items.get(failure.accno);
+        output += `  ❌ ${failure.accno} [${failure.category || 'unknown'}]: ${failure.error}`;
+        if (item) output += ` (${item.durationMs} ms)`;
+        output += '\n';
       });
     }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
-    };
+    return this.toolResult(args, output, batchResult);
   }
 
   /**
-   * Authenticate with the BioStudies API
+   * Download study files into the local download directory, keeping their paths within the study
+   * Partial transfers resume, complete files are skipped and MD5 checksums are verified when known
    */
-  async authenticate(args: any) {
-    if (!args.login || !args.password) {
-      throw new Error('Both login and password are required for authentication');
+  async downloadStudyFiles(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    if (args.files !== undefined && (!Array.isArray(args.files) || args.files.some((path: any) => typeof path !== 'string'))) {
+      throw new ToolArgumentError('Files must be an array of file paths');
+    }
+    if (args.pattern !== undefined && typeof args.pattern !== 'string') {
+      throw new ToolArgumentError('Pattern must be a string');
+    }
+    const parallel = args.parallel ?? DEFAULT_DOWNLOAD_CONCURRENCY;
+    if (!Number.isInteger(parallel) || parallel < 1 || parallel > MAX_DOWNLOAD_CONCURRENCY) {
+      throw new ToolArgumentError(`Parallel must be an integer between 1 and ${MAX_DOWNLOAD_CONCURRENCY}`);
     }
 
-    const credentials: AuthCredentials = {
-      login: args.login,
-      password: args.password
-    };
-
-    const result = await this.apiClient.authenticate(credentials);
-
-    if (result.error) {
+    const directory = this.downloader.studyDirectory(args.accno, args.directory);
+    const listing = await this.loadStudyFiles(args, context);
+    if (listing.error) {
       return {
         content: [{
           type: "text",
-          text: `Authentication failed: ${result.error}`
+          text: `Error listing files for study ${args.accno}: ${listing.error}`
         }],
         isError: true
       };
     }
 
-    const token = result.data!;
+    const files = selectFiles(listing.data || [], args.files, args.pattern);
+    const result = await this.downloader.download(args.accno, files, {
+      directory,
+      concurrency: parallel,
+      verify: args.verify !== false,
+      key: this.requestOptions(args, context).key,
+      signal: context.signal,
+      onProgress: progress => progress.bytesTotal > 0
+        ? context.reportProgress?.(progress.bytesDone, progress.bytesTotal, progress.message)
+        : context.reportProgress?.(progress.filesDone, progress.filesTotal, progress.message)
+    });
+
+    if (result.total === 0) {
+      return this.toolResult(args, `No files in study ${args.accno} match the selection`, result);
+    }
+
+    let output = `📥 **Download of ${args.accno}** to \`${result.directory}\`\n\n`;
+    output += `**Summary:** ${result.downloaded} downloaded`;
+    if (result.resumed) output += ` (${result.resumed} resumed)`;
+    output += `, ${result.skipped} already present, ${result.failed} failed`;
+    output += ` - ${this.formatFileSize(result.bytesTransferred)} transferred in ${(result.durationMs / 1000).toFixed(1)}s\n`;
+    const verified = result.items.filter(item => item.md5Verified).length;
+    if (verified) output += `**MD5 verified:** ${verified}/${result.total} files\n`;
+    output += '\n';
+
+    const failed = result.items.filter(item => item.status === 'failed');
+    if (failed.length) {
+      output += `**Failed (${failed.length}):**\n`;
+      failed.forEach(item => {
+        output += `  ❌ ${item.path} [${item.category || 'unknown'}]: ${item.error}\n`;
+      });
+      output += '\n';
+    }
 
-    let output = `✅ Authentication successful\n`;
-    if (token.user) {
-      output += `User: ${token.user}\n`;
+    const completed = result.items.filter(item => item.status !== 'failed');
+    if (completed.length) {
+      output += `**Files (${completed.length}):**\n`;
+      completed.slice(0, 50).forEach(item => {
+        const size = item.size !== undefined ? ` (${this.formatFileSize(item.size)})` : '';
+        const status = item.status === 'skipped' ? 'already present' : item.status;
+        output += `  ✅ ${item.path}${size} - ${status}${item.md5Verified ? ', MD5 ✓' : ''}\n`;
+      });
+      if (completed.length > 50) output += `  ... and ${completed.length - 50} more\n`;
     }
-    if (token.expires) {
-      output += `Token expires: ${token.expires}\n`;
+
+    if (result.failed) {
+      output += '\nRun the download again to retry failed files; partial transfers resume where they stopped.';
     }
-    output += `\nYou can now access protected studies and submit data.`;
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
-    };
+    return this.toolResult(args, output, result);
   }
 
   /**
-   * Provide search alternatives when the API search endpoint is unavailable
+   * Compare a local copy of a study's files with the study's file metadata
+   * Uses cached metadata when the BioStudies API cannot be reached
    */
-  private provideSearchAlternatives(searchParams: SearchParams) {
-    let output = `🔍 **BioStudies Search Currently Unavailable**\n\n`;
-    output += `The EBI BioStudies search API endpoint is currently not available (HTTP 404). Here are alternative approaches to find studies:\n\n`;
+  async verifyStudyFiles(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    if (args.directory !== undefined && (typeof args.directory !== 'string' || !args.directory)) {
+      throw new ToolArgumentError('Directory must be a non-empty string');
+    }
+    if (args.pattern !== undefined && typeof args.pattern !== 'string') {
+      throw new ToolArgumentError('Pattern must be a string');
+    }
 
-    // Collection-based suggestions
-    if (searchParams.collection) {
-      output += `**Collection-Based Discovery for "${searchParams.collection}":**\n`;
-      const suggestions = this.getCollectionSuggestions(searchParams.collection.toLowerCase());
-      if (suggestions.length > 0) {
-        suggestions.forEach(suggestion => {
-          output += `  • Try accession: ${suggestion}\n`;
-        });
-      } else {
-        output += `  • Use individual study lookup with known ${searchParams.collection} accession patterns\n`;
-      }
-      output += '\n';
+    const directory = args.directory
+      ? this.downloader.resolveDirectory(args.directory)
+      : this.downloader.studyDirectory(args.accno);
+    const stats = await fs.stat(directory).catch(() => undefined);
+    if (!stats?.isDirectory()) {
+      return {
+        content: [{
+          type: "text",
+          text: `Directory not found: ${directory}`
+        }],
+        isError: true
+      };
     }
 
-    // Query-based suggestions
-    if (searchParams.query) {
-      output += `**Alternative Search Strategies for "${searchParams.query}":**\n`;
-      output += `  • Use the EBI BioStudies website directly: https://www.ebi.ac.uk/biostudies/\n`;
-      output += `  • Try related databases like ArrayExpress: https://www.ebi.ac.uk/arrayexpress/\n`;
-      output += `  • Search by publication title or author name on the BioStudies website\n\n`;
+    const listing = await this.loadStudyFiles(args, context, true);
+    if (listing.error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error retrieving file metadata for study ${args.accno}: ${listing.error}` +
+            (isRetryableStatus(listing.status) ? '\n\nNo cached metadata is available for this study either.' : '')
+        }],
+        isError: true
+      };
     }
 
-    // Common accession patterns
-    output += `**Try Common Accession Patterns:**\n`;
-    output += `  • **ArrayExpress**: E-MTAB-1234, E-GEOD-1234, E-MEXP-1234\n`;
-    output += `  • **BioImages**: S-BIAD1234\n`;
-    output += `  • **EMPIAR**: EMPIAR-10001\n`;
-    output += `  • **BioStudies**: S-BSST1234\n\n`;
+    const verification = await verifyLocalFiles(directory, listing.data || [], {
+      checksums: args.checksums !== false,
+      pattern: args.pattern,
+      ownFiles: Object.values(EXPORT_FILENAMES),
+      signal: context.signal,
+      onProgress: context.reportProgress
+    });
+    const result = {
+      accno: args.accno,
+      ...verification,
+      metadataStale: listing.stale === true,
+      metadataCachedAt: listing.cachedAt
+    };
 
-    // Working functionality
-    output += `**Available Functionality:**\n`;
-    output += `  ✅ Individual study retrieval: Use \`get_study_details\` with known accession numbers\n`;
-    output += `  ✅ Accession validation: Use \`validate_study_accession\` to check format\n`;
-    output += `  ✅ Batch study retrieval: Use \`batch_get_studies\` for multiple studies\n\n`;
+    let output = result.complete
+      ? `✅ **${args.accno} is complete** in \`${directory}\`\n\n`
+      : `❌ **${args.accno} is incomplete** in \`${directory}\`\n\n`;
+    output += `**Summary:** ${result.expected} files listed: ${result.verified} MD5-verified, ` +
+      `${result.sizeOnly} checked by size only, ${result.missing} missing, ${result.sizeMismatch} with the wrong size, ` +
+      `${result.checksumMismatch} failed MD5`;
+    if (result.invalidPaths) output += `, ${result.invalidPaths} with unsafe paths`;
+    output += ` (${(result.durationMs / 1000).toFixed(1)}s)\n`;
+    if (result.metadataStale) {
+      output += `⚠️ BioStudies could not be reached; checked against cached metadata from ${result.metadataCachedAt}\n`;
+    }
+    output += '\n';
 
-    output += `**Example Usage:**\n`;
-    output += `Try: get_study_details with accession "E-MTAB-1234" or similar known accession numbers`;
+    const describe: Record<string, (problem: typeof result.problems[number]) => string> = {
+      missing: () => 'missing',
+      size_mismatch: problem => `size ${problem.localSize} B, expected ${problem.expectedSize} B`,
+      checksum_mismatch: problem => `MD5 ${problem.localMd5}, expected ${problem.expectedMd5}`,
+      invalid_path: () => 'unsafe path, not checked'
+    };
+    if (result.problems.length) {
+      output += `**Problems (${result.problems.length}):**\n`;
+      result.problems.slice(0, 50).forEach(problem => {
+        output += `  ❌ ${problem.path}: ${describe[problem.status](problem)}\n`;
+      });
+      if (result.problems.length > 50) output += `  ... and ${result.problems.length - 50} more\n`;
+      output += '\n';
+    }
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
+    if (result.unexpected.length) {
+      output += `**Not listed in the study (${result.unexpected.length}):**\n`;
+      result.unexpected.slice(0, 50).forEach(path => { output += `  ➕ ${path}\n`; });
+      if (result.unexpected.length > 50) output += `  ... and ${result.unexpected.length - 50} more\n`;
+      output += '\n';
+    }
+
+    if (result.partial.length) {
+      output += `**Unfinished downloads (${result.partial.length}):** ${result.partial.join(', ')}\n`;
+    }
+
+    return this.toolResult(args, output, result);
+  }
+
+  /**
+   * Generate a download manifest (wget or curl script, aria2 input file, Aspera pair list or URL list)
+   * for files of one or more studies, with an md5sum-compatible checksum file
+   */
+  async generateDownloadManifest(args: any, context: ToolContext = {}) {
+    const accessions: string[] = args.accessions;
+    if (!Array.isArray(accessions) || accessions.length === 0 || accessions.some(accno => typeof accno !== 'string')) {
+      throw new ToolArgumentError('Accessions parameter is required and must be an array of strings');
+    }
+    if (accessions.length > MAX_MANIFEST_STUDIES) {
+      throw new ToolArgumentError(`Maximum ${MAX_MANIFEST_STUDIES} studies can be included in one manifest`);
+    }
+    const invalid = accessions.filter(accno => !this.apiClient.isValidAccessionNumber(accno));
+    if (invalid.length) {
+      throw new ToolArgumentError(`Invalid accession number format: ${invalid.map(accno => JSON.stringify(accno)).join(', ')}`);
+    }
+    if (!MANIFEST_FORMATS.includes(args.manifestFormat)) {
+      throw new ToolArgumentError(`Manifest format must be one of: ${MANIFEST_FORMATS.join(', ')}`);
+    }
+    if (args.pattern !== undefined && typeof args.pattern !== 'string') {
+      throw new ToolArgumentError('Pattern must be a string');
+    }
+    if (args.keys !== undefined && (typeof args.keys !== 'object' || Array.isArray(args.keys) ||
+        Object.values(args.keys).some(key => typeof key !== 'string'))) {
+      throw new ToolArgumentError('Keys must be an object mapping accession numbers to secret access keys');
+    }
+
+    const manifestFormat: ManifestFormat = args.manifestFormat;
+    const keysOmitted: string[] = [];
+    const studies = await Promise.all(Array.from(new Set(accessions)).map(async accno => {
+      const studyArgs = { accno, key: args.keys?.[accno], refresh: args.refresh };
+      const listing = await this.loadStudyFiles(studyArgs, context);
+      if (listing.error) {
+        return { accno, fileCount: 0, totalSize: 0, error: listing.error, entries: [] as ManifestEntry[] };
+      }
+
+      let asperaRoot: string | undefined;
+      if (manifestFormat === 'aspera') {
+        const info = await this.apiClient.getStudyInfo(accno, this.requestOptions(studyArgs, context));
+        if (!info.data?.ftpLink) {
+          return {
+            accno,
+            fileCount: 0,
+            totalSize: 0,
+            error: `FTP location unavailable${info.error ? `: ${info.error}` : ''}`,
+            entries: [] as ManifestEntry[]
+          };
+        }
+        asperaRoot = `${new URL(info.data.ftpLink).pathname.replace(/\/+$/, '')}/Files`;
+      }
+
+      const key = studyArgs.key ?? await this.keyring.get(accno);
+      if (key && args.includeKeys !== true) keysOmitted.push(accno);
+      const files = selectFiles(listing.data || [], undefined, args.pattern);
+      const entries: ManifestEntry[] = files.map(file => ({
+        accno,
+        path: file.path,
+        url: this.apiClient.studyFileUrl(accno, file.path, args.includeKeys === true ? key : undefined),
+        size: file.size,
+        md5: file.md5,
+        asperaSource: asperaRoot && `${asperaRoot}/${file.path}`
+      }));
+      const totalSize = files.reduce((sum, file) => sum + (file.size || 0), 0);
+      return { accno, fileCount: files.length, totalSize, entries };
+    }));
+
+    const entries = studies.flatMap(study => study.entries);
+    const fileCount = entries.length;
+    const totalSize = studies.reduce((sum, study) => sum + study.totalSize, 0);
+    const studyLabel = studies.length === 1 ? studies[0].accno : `${studies.length} studies`;
+
+    if (fileCount === 0) {
+      const errors = studies.filter(study => study.error).map(study => `• ${study.accno}: ${study.error}`);
+      return {
+        content: [{
+          type: "text",
+          text: `No files to include in the manifest for ${studyLabel}${errors.length ? `\n\n${errors.join('\n')}` : ''}`
+        }],
+        isError: true
+      };
+    }
+
+    const manifest = buildManifest(
+      manifestFormat,
+      entries,
+      `BioStudies files of ${studyLabel}: ${fileCount} files, ${this.formatFileSize(totalSize)}`
+    );
+    const command = {
+      wget: `bash ${manifest.manifestFilename}`,
+      curl: `bash ${manifest.manifestFilename}`,
+      aria2: `aria2c --input-file=${manifest.manifestFilename} --continue=true --max-concurrent-downloads=4`,
+      aspera: asperaCommand(manifest.manifestFilename),
+      urls: undefined
+    }[manifestFormat];
+
+    const data = {
+      manifestFormat,
+      studies: studies.map(({ entries, ...study }) => study),
+      fileCount,
+      totalSize,
+      ...manifest,
+      command,
+      keysOmitted: keysOmitted.length ? keysOmitted : undefined
     };
+
+    let output = `📋 **${manifestFormat} download manifest** for ${studyLabel} (${fileCount} files, ${this.formatFileSize(totalSize)})\n\n`;
+    output += `Save as \`${manifest.manifestFilename}\``;
+    output += command
+      ? ` and run \`${command}\`; files are saved as <accno>/<path> under the current directory.\n\n`
+      : ', one URL per line.\n\n';
+    output += '```\n' + manifest.manifest + '```\n\n';
+
+    if (manifest.checksumCount) {
+      output += `**Checksums** (\`${manifest.checksumsFilename}\`, ${manifest.checksumCount}/${fileCount} files; ` +
+        `verify with \`md5sum -c ${manifest.checksumsFilename}\`):\n\n`;
+      output += '```\n' + manifest.checksums + '```\n';
+    } else {
+      output += '⚠️ The study metadata has no MD5 checksums for these files.\n';
+    }
+
+    const failed = studies.filter(study => study.error);
+    if (failed.length) {
+      output += `\n**Not included (${failed.length}):**\n`;
+      failed.forEach(study => { output += `  ❌ ${study.accno}: ${study.error}\n`; });
+    }
+    if (keysOmitted.length) {
+      output += `\n🔑 ${keysOmitted.join(', ')} ${keysOmitted.length === 1 ? 'is' : 'are'} private: ` +
+        'the URLs need the secret access key, which is left out unless includeKeys is set.\n';
+    }
+
+    return this.toolResult(args, output, data);
   }
 
   /**
-   * Provide known BioStudies collections when the API endpoint is unavailable
+   * Export a study's metadata as a schema.org Dataset (JSON-LD) or as RO-Crate metadata,
+   * optionally saving it into the study's download directory
    */
-  private provideKnownCollections() {
-    const knownCollections = [
-      {
-        key: 'arrayexpress',
-        name: 'ArrayExpress',
-        description: 'Functional genomics experiments including gene expression data',
-        accessionPattern: 'E-MTAB-####, E-GEOD-####, E-MEXP-####',
-        website: 'https://www.ebi.ac.uk/arrayexpress/',
-        examples: ['E-MTAB-7249', 'E-MTAB-6819', 'E-MTAB-5061']
-      },
-      {
-        key: 'bioimages',
-        name: 'BioImages',
-        description: 'Biological imaging data from light and electron microscopy',
-        accessionPattern: 'S-BIAD####',
-        website: 'https://www.ebi.ac.uk/biostudies/bioimages/',
-        examples: ['S-BIAD423', 'S-BIAD424', 'S-BIAD425']
-      },
-      {
-        key: 'empiar',
-        name: 'EMPIAR',
-        description: 'Electron Microscopy Public Image Archive',
-        accessionPattern: 'EMPIAR-#####',
-        website: 'https://www.ebi.ac.uk/empiar/',
-        examples: ['EMPIAR-10001', 'EMPIAR-10002', 'EMPIAR-10003']
-      },
-      {
-        key: 'biostudies',
-        name: 'BioStudies General',
-        description: 'General biological studies and multi-omics data',
-        accessionPattern: 'S-BSST####',
-        website: 'https://www.ebi.ac.uk/biostudies/',
-        examples: ['S-BSST1', 'S-BSST2', 'S-BSST3']
+  async exportStudyMetadata(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    const exportFormat: ExportFormat = args.exportFormat ?? 'schema_org';
+    if (!EXPORT_FORMATS.includes(exportFormat)) {
+      throw new ToolArgumentError(`Export format must be one of: ${EXPORT_FORMATS.join(', ')}`);
+    }
+
+    const result = await this.apiClient.getStudyDetails(args.accno, this.requestOptions(args, context));
+    if (result.error || !result.data) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error retrieving study ${args.accno}: ${result.error || 'Study not found'}`
+        }],
+        isError: true
+      };
+    }
+
+    // Studies with file lists keep their files out of the section tree
+    let study = result.data;
+    if (!study.files?.length) {
+      const listing = await this.loadStudyFiles(args, context);
+      if (listing.data?.length) study = { ...study, files: listing.data };
+    }
+
+    // File URLs never carry a secret key, so exported documents can be shared
+    const urls = {
+      landingPage: studyLandingPage(study.accno),
+      fileUrl: (path: string) => this.apiClient.studyFileUrl(study.accno, path)
+    };
+    const document = exportFormat === 'ro_crate' ? toRoCrateMetadata(study, urls) : toSchemaOrgDataset(study, urls);
+    const filename = EXPORT_FILENAMES[exportFormat];
+
+    let savedTo: string | undefined;
+    if (args.save) {
+      const directory = this.downloader.studyDirectory(study.accno, args.directory);
+      await fs.mkdir(directory, { recursive: true });
+      savedTo = join(directory, filename);
+      await fs.writeFile(savedTo, JSON.stringify(document, null, 2) + '\n');
+    }
+
+    const data = { accno: study.accno, exportFormat, filename, document, savedTo };
+    const label = exportFormat === 'ro_crate' ? 'RO-Crate metadata' : 'schema.org Dataset JSON-LD';
+    let output = `🏷️ **${label} for ${study.accno}** (${study.authors?.length || 0} creators, ` +
+      `${study.publications?.length || 0} publications, ${study.files?.length || 0} files)\n\n`;
+    output += savedTo
+      ? `Saved to \`${savedTo}\`${exportFormat === 'ro_crate' ? '; the directory is now an RO-Crate for the downloaded files' : ''}.\n\n`
+      : `Save as \`${filename}\`${exportFormat === 'ro_crate' ? ' next to the downloaded study files' : ''}.\n\n`;
+    output += '```json\n' + JSON.stringify(document, null, 2) + '\n```\n';
+    if (result.keySource) {
+      output += '\n🔑 This study is private; its file URLs need the secret access key, which is not included.\n';
+    }
+
+    return this.toolResult(args, output, data);
+  }
+
+  /**
+   * Cite one or more studies as datasets, together with their linked publications,
+   * in BibTeX, RIS or CSL-JSON, with a data availability statement
+   */
+  async citeStudy(args: any, context: ToolContext = {}) {
+    const accessions: string[] = args.accessions;
+    if (!Array.isArray(accessions) || accessions.length === 0 || accessions.some(accno => typeof accno !== 'string')) {
+      throw new ToolArgumentError('Accessions parameter is required and must be an array of strings');
+    }
+    if (accessions.length > MAX_BATCH_SIZE) {
+      throw new ToolArgumentError(`Maximum ${MAX_BATCH_SIZE} studies can be cited at once`);
+    }
+    const citationFormat: CitationFormat = args.citationFormat ?? 'bibtex';
+    if (!CITATION_FORMATS.includes(citationFormat)) {
+      throw new ToolArgumentError(`Citation format must be one of: ${CITATION_FORMATS.join(', ')}`);
+    }
+    if (args.keys !== undefined && (typeof args.keys !== 'object' || Array.isArray(args.keys) ||
+        Object.values(args.keys).some(key => typeof key !== 'string'))) {
+      throw new ToolArgumentError('Keys must be an object mapping accession numbers to secret access keys');
+    }
+
+    const studies = await Promise.all(Array.from(new Set(accessions)).map(async accno => {
+      const studyArgs = { accno, key: args.keys?.[accno], refresh: args.refresh };
+      const result = await this.apiClient.getStudyDetails(accno, this.requestOptions(studyArgs, context));
+      if (result.error || !result.data) {
+        return { accno, publicationCount: 0, error: result.error || 'Study not found', records: [] };
       }
-    ];
+      const records = studyCitations(result.data, args.includePublications !== false);
+      return {
+        accno: result.data.accno,
+        title: result.data.title,
+        doi: records[0].doi,
+        private: result.keySource !== undefined,
+        publicationCount: records.length - 1,
+        records
+      };
+    }));
+
+    const cited = studies.filter(study => !study.error);
+    const records = studies.flatMap(study => study.records);
+    const citations = records.length ? formatCitations(citationFormat, records) : '';
+    const statement = cited.length ? this.dataAvailabilityStatement(cited) : undefined;
+    const data = {
+      citationFormat,
+      citations,
+      count: records.length,
+      studies: studies.map(({ records: _records, ...study }) => study),
+      statement
+    };
+
+    const studyLabel = studies.length === 1 ? studies[0].accno : `${studies.length} studies`;
+    let output = `📚 **${citationFormat} citations for ${studyLabel}** (${cited.length} datasets, ` +
+      `${records.length - cited.length} publications)\n\n`;
+    if (citations) {
+      output += '```' + (citationFormat === 'csl_json' ? 'json' : citationFormat) + '\n' + citations.trimEnd() + '\n```\n\n';
+    }
+    if (statement) {
+      output += `**Data availability statement:**\n\n> ${statement}\n`;
+    }
+
+    const failed = studies.filter(study => study.error);
+    if (failed.length) {
+      output += `\n**Not cited (${failed.length}):**\n`;
+      failed.forEach(study => { output += `  ❌ ${study.accno}: ${study.error}\n`; });
+    }
+
+    return this.toolResult(args, output, data);
+  }
+
+  /**
+   * Read the MAGE-TAB IDF and SDRF files of an ArrayExpress study and return its experimental design:
+   * sources and their characteristics, factor values, protocols and the data files of each assay
+   */
+  async getExperimentDesign(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    const limit = args.limit ?? 100;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new ToolArgumentError('Limit must be an integer between 1 and 1000');
+    }
+
+    const mageTab = await this.loadMageTab(args, context);
+    if (mageTab.error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error reading MAGE-TAB files of study ${args.accno}: ${mageTab.error}`
+        }],
+        isError: true
+      };
+    }
+
+    const { idf, idfFile, tables } = mageTab.data!;
+    const design = buildExperimentDesign(args.accno, idf, idfFile, tables);
+    const result = {
+      ...design,
+      sources: design.sources.slice(0, limit),
+      assays: design.assays.slice(0, limit),
+      truncated: design.sampleCount > limit || design.assayCount > limit
+    };
+
+    let output = `🧬 **Experimental design of ${design.accno}**${design.title ? `: ${design.title}` : ''}\n\n`;
+    output += `**MAGE-TAB:** ${[design.idfFile, ...design.sdrfFiles].filter(Boolean).join(', ')}\n`;
+    if (design.experimentalDesigns.length) output += `**Design:** ${design.experimentalDesigns.join(', ')}\n`;
+    output += `**Samples:** ${design.sampleCount} sources, ${design.assayCount} assays\n\n`;
+
+    const describeVariables = (variables: typeof design.factors) => variables.map(variable => {
+      const values = variable.values.slice(0, 10).join(', ');
+      const more = variable.values.length > 10 ? `, ... (${variable.values.length} values)` : '';
+      return `  • **${variable.name}**: ${values || 'no values'}${more}\n`;
+    }).join('');
+    if (design.factors.length) {
+      output += `**Experimental factors (${design.factors.length}):**\n${describeVariables(design.factors)}\n`;
+    }
+    if (design.characteristics.length) {
+      output += `**Characteristics (${design.characteristics.length}):**\n${describeVariables(design.characteristics)}\n`;
+    }
+
+    if (design.protocols.length) {
+      output += `**Protocols (${design.protocols.length}):**\n`;
+      design.protocols.forEach(protocol => {
+        output += `  • **${protocol.name}**${protocol.type ? ` (${protocol.type})` : ''}`;
+        if (protocol.description) {
+          output += `: ${protocol.description.length > 200 ? `${protocol.description.slice(0, 200)}...` : protocol.description}`;
+        }
+        output += '\n';
+      });
+      output += '\n';
+    }
+
+    if (design.assays.length) {
+      const shown = Math.min(design.assays.length, 20);
+      output += `**Assays (${shown} of ${design.assayCount}):**\n`;
+      design.assays.slice(0, shown).forEach(assay => {
+        const factors = Object.entries(assay.factorValues).map(([name, value]) => `${name}=${value}`).join(', ');
+        output += `  • **${assay.name}** ← ${assay.sources.join(', ') || 'unknown source'}${factors ? ` [${factors}]` : ''}\n`;
+        assay.files.forEach(file => { output += `      📄 ${file.name} (${file.column})\n`; });
+      });
+      if (design.assayCount > shown) output += `  ... and ${design.assayCount - shown} more\n`;
+    }
+
+    return this.toolResult(args, output, result);
+  }
+
+  /**
+   * Filter and group the samples of an ArrayExpress study by SDRF characteristics and factor values,
+   * returning the matching samples with their raw and processed data files
+   */
+  async querySamples(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    if (args.filters !== undefined && (typeof args.filters !== 'object' || args.filters === null || Array.isArray(args.filters) ||
+        Object.values(args.filters).some(value => !this.isStringOrStringArray(value)))) {
+      throw new ToolArgumentError('Filters must be an object mapping column names to a value or an array of values');
+    }
+    if (args.groupBy !== undefined && !this.isStringOrStringArray(args.groupBy)) {
+      throw new ToolArgumentError('Group by must be a column name or an array of column names');
+    }
+    const limit = args.limit ?? 100;
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      throw new ToolArgumentError('Limit must be an integer between 1 and 1000');
+    }
+
+    const mageTab = await this.loadMageTab(args, context);
+    if (mageTab.error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error reading MAGE-TAB files of study ${args.accno}: ${mageTab.error}`
+        }],
+        isError: true
+      };
+    }
+
+    const filters: Record<string, string[]> = Object.fromEntries(
+      Object.entries(args.filters || {}).map(([column, value]) => [column, ([] as string[]).concat(value as string | string[])])
+    );
+    const groupBy: string[] = args.groupBy === undefined ? [] : [].concat(args.groupBy);
+    const { idf, idfFile, tables } = mageTab.data!;
+    const design = buildExperimentDesign(args.accno, idf, idfFile, tables);
+    const query = querySamples(design, { filters, groupBy });
+
+    const distinct = (names: string[]) => Array.from(new Set(names));
+    const result = {
+      accno: design.accno,
+      filters,
+      groupBy,
+      total: query.total,
+      matched: query.samples.length,
+      samples: query.samples.slice(0, limit),
+      groups: query.groups,
+      rawFiles: distinct(query.samples.flatMap(sample => sample.rawFiles)),
+      processedFiles: distinct(query.samples.flatMap(sample => sample.processedFiles)),
+      truncated: query.samples.length > limit
+    };
+
+    const criteria = Object.entries(filters).map(([column, values]) => `${column} = ${values.join(' or ')}`);
+    let output = `🔎 **Samples of ${design.accno}**${criteria.length ? ` where ${criteria.join(' and ')}` : ''}\n\n`;
+    output += `**Matched:** ${result.matched} of ${result.total} samples`;
+    output += ` (${result.rawFiles.length} raw files, ${result.processedFiles.length} processed files)\n\n`;
+
+    if (result.groups) {
+      output += `**Samples per ${groupBy.join(' × ')}:**\n\n`;
+      output += `| ${groupBy.join(' | ')} | Samples | Assays |\n`;
+      output += `|${groupBy.map(() => '---').join('|')}|---|---|\n`;
+      result.groups.forEach(group => {
+        output += `| ${Object.values(group.values).join(' | ')} | ${group.sampleCount} | ${group.assayCount} |\n`;
+      });
+      output += '\n';
+    }
+
+    if (result.samples.length) {
+      const shown = Math.min(result.samples.length, 20);
+      output += `**Samples (${shown} of ${result.matched}):**\n`;
+      result.samples.slice(0, shown).forEach(sample => {
+        const values = Object.entries({ ...sample.characteristics, ...sample.factorValues })
+          .map(([name, value]) => `${name}=${value}`).join(', ');
+        output += `  • **${sample.name}**${values ? ` [${values}]` : ''}\n`;
+      });
+      if (result.matched > shown) output += `  ... and ${result.matched - shown} more\n`;
+      output += '\n';
+    }
+
+    const listFiles = (label: string, files: string[]) => {
+      if (!files.length) return;
+      output += `**${label} (${files.length}):**\n`;
+      files.slice(0, 50).forEach(file => { output += `  📄 ${file}\n`; });
+      if (files.length > 50) output += `  ... and ${files.length - 50} more\n`;
+      output += '\n';
+    };
+    listFiles('Raw files', result.rawFiles);
+    listFiles('Processed files', result.processedFiles);
+
+    return this.toolResult(args, output, result);
+  }
+
+  /**
+   * Summarize a processed data matrix of a study from its first bytes: dimensions, columns matched to
+   * SDRF assays, a preview of the first rows and per-column statistics, without downloading the whole file
+   */
+  async previewExpressionMatrix(args: any, context: ToolContext = {}) {
+    if (!args.accno || typeof args.accno !== 'string') {
+      throw new ToolArgumentError('Study accession number is required and must be a string');
+    }
+    if (args.path !== undefined && (typeof args.path !== 'string' || !args.path)) {
+      throw new ToolArgumentError('Path must be a non-empty string');
+    }
+    const previewRows = args.previewRows ?? 10;
+    if (!Number.isInteger(previewRows) || previewRows < 1 || previewRows > 100) {
+      throw new ToolArgumentError('Preview rows must be an integer between 1 and 100');
+    }
+    const maxScanMb = args.maxScanMb ?? DEFAULT_MATRIX_SCAN_BYTES / (1024 * 1024);
+    if (typeof maxScanMb !== 'number' || maxScanMb <= 0 || maxScanMb > 256) {
+      throw new ToolArgumentError('Max scan size must be a number of megabytes between 0 and 256');
+    }
+
+    const listing = await this.loadStudyFiles(args, context);
+    if (listing.error) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error listing files for study ${args.accno}: ${listing.error}`
+        }],
+        isError: true
+      };
+    }
+
+    // The SDRF, when there is one, names the processed files and the assays that matrix columns belong to
+    const mageTab = await this.loadMageTab(args, context);
+    const design = mageTab.data
+      ? buildExperimentDesign(args.accno, mageTab.data.idf, mageTab.data.idfFile, mageTab.data.tables)
+      : undefined;
+    const processedNames = (design?.assays || [])
+      .flatMap(assay => assay.files.filter(file => file.kind === 'processed').map(file => file.name));
+    const files = listing.data || [];
+    const candidates = findMatrixCandidates(files, processedNames);
+
+    const file = args.path
+      ? files.find(candidate => candidate.path === args.path)
+      : files.find(candidate => candidate.path === candidates.find(match => match.previewable)?.path);
+    if (!file) {
+      const listed = candidates.map(candidate => `  • ${candidate.path}${candidate.previewable ? '' : ' (zip archive)'}`).join('\n');
+      return {
+        content: [{
+          type: "text",
+          text: args.path
+            ? `File ${args.path} not found in study ${args.accno}`
+            : `No previewable processed data matrix found in study ${args.accno}` +
+              (listed ? `. Zip archives cannot be previewed; download them instead:\n${listed}` : '')
+        }],
+        isError: true
+      };
+    }
+    if (/\.zip$/i.test(file.name)) {
+      const previewable = candidates.filter(candidate => candidate.previewable).map(candidate => `  • ${candidate.path}`).join('\n');
+      return {
+        content: [{
+          type: "text",
+          text: `${file.path} is a zip archive, which cannot be previewed; download it with download_study_files instead` +
+            (previewable ? `. Previewable candidates:\n${previewable}` : '')
+        }],
+        isError: true
+      };
+    }
+
+    const opened = await this.apiClient.openStudyFile(args.accno, file.path, {
+      key: this.requestOptions(args, context).key,
+      signal: context.signal
+    });
+    if (opened.error || !opened.response?.body) {
+      return {
+        content: [{
+          type: "text",
+          text: `Error opening ${file.path}: ${opened.error || 'Empty response'}`
+        }],
+        isError: true
+      };
+    }
+
+    let scan;
+    try {
+      scan = await scanMatrix(opened.response.body as ReadableStream<Uint8Array>, {
+        name: file.name,
+        size: file.size,
+        maxBytes: Math.round(maxScanMb * 1024 * 1024),
+        previewRows,
+        idleTimeout: DEFAULT_TIMEOUT
+      });
+    } catch (error) {
+      return {
+        content: [{
+          type: "text",
+          text: context.signal?.aborted
+            ? 'Matrix preview cancelled'
+            : `Error reading ${file.path}: ${error instanceof Error ? error.message : String(error)}`
+        }],
+        isError: true
+      };
+    }
+
+    const matchedColumns = design ? matchColumnsToDesign(scan.columns, design) : 0;
+    const result = {
+      accno: args.accno,
+      path: file.path,
+      size: file.size,
+      ...scan,
+      matchedColumns,
+      candidates
+    };
+
+    const valueColumns = scan.columns.filter(column => column.role === 'value');
+    const scaleDescriptions: Record<string, string> = {
+      integer_counts: 'whole non-negative numbers - raw counts',
+      linear: 'large positive values - normalised counts (e.g. TPM, FPKM) or raw intensities',
+      log: 'small values - log-transformed data (e.g. RMA intensities, log2 CPM)',
+      non_numeric: 'no numeric data columns',
+      unknown: 'mixed range - possibly fold changes or statistics'
+    };
+    const rows = scan.complete
+      ? `${scan.rowCount} rows`
+      : `${scan.rowCount} rows in the first ${this.formatFileSize(scan.bytesScanned)}` +
+        (scan.estimatedRows !== undefined ? `, about ${scan.estimatedRows} in total` : '');
+
+    let output = `📊 **Matrix preview of ${file.path}** (${args.accno}${file.size !== undefined ? `, ${this.formatFileSize(file.size)}` : ''})\n\n`;
+    output += `**Dimensions:** ${rows} × ${scan.columnCount} columns (${valueColumns.length} data columns)\n`;
+    output += `**Values:** ${scan.valueScale} - ${scaleDescriptions[scan.valueScale]}\n`;
+    if (design) output += `**Columns matched to SDRF assays:** ${matchedColumns}/${valueColumns.length}\n`;
+    output += '\n';
+
+    const shownColumns = scan.columns.slice(0, 20);
+    output += `| Column | Role | Assay | Min | Max | Mean | Missing |\n|---|---|---|---|---|---|---|\n`;
+    shownColumns.forEach(column => {
+      const number = (value?: number) => value === undefined ? '' : Number(value.toPrecision(4)).toString();
+      output += `| ${column.header || '(row names)'} | ${column.role} | ${column.assay || ''} | ${number(column.stats.min)} | ` +
+        `${number(column.stats.max)} | ${number(column.stats.mean)} | ${column.stats.missing} |\n`;
+    });
+    if (scan.columnCount > shownColumns.length) output += `\n... and ${scan.columnCount - shownColumns.length} more columns\n`;
+
+    if (scan.preview.length) {
+      output += `\n**First ${scan.preview.length} rows:**\n\n\`\`\`\n`;
+      scan.preview.forEach(row => {
+        output += row.slice(0, 10).join('\t') + (row.length > 10 ? '\t...' : '') + '\n';
+      });
+      output += '```\n';
+    }
+
+    const others = candidates.filter(candidate => candidate.path !== file.path);
+    if (others.length) {
+      output += `\n**Other candidate matrices (${others.length}):** ${others.map(candidate => candidate.path).join(', ')}\n`;
+    }
+
+    return this.toolResult(args, output, result);
+  }
+
+  /**
+   * List or remove the secret access keys saved in the local keyring
+   */
+  async studyKeys(args: any) {
+    const action = args?.action || 'list';
+    if (action !== 'list' && action !== 'remove') {
+      throw new ToolArgumentError('Action must be "list" or "remove"');
+    }
+
+    if (action === 'remove') {
+      if (!args.accno || typeof args.accno !== 'string') {
+        throw new ToolArgumentError('Study accession number is required to remove a key');
+      }
+      if (this.keyring.readOnly) {
+        throw new Error('Saved keys cannot be removed on a shared HTTP server; edit the keyring file instead');
+      }
+      const removed = await this.keyring.remove(args.accno);
+      const studies = await this.keyring.list();
+      const output = removed
+        ? `🗑️ Removed the saved key for ${args.accno}`
+        : `No key is saved for ${args.accno}`;
+      return this.toolResult(args, output, { action, removed, studies });
+    }
+
+    const studies = await this.keyring.list();
+    if (studies.length === 0) {
+      return this.toolResult(
+        args,
+        'No secret access keys are saved. Pass `key` to get_study_details to open a private study and save its key.',
+        { action, studies }
+      );
+    }
+
+    let output = `🔑 **Saved secret access keys (${studies.length}):**\n\n`;
+    output += studies
+      .map(study => `• ${study.accno}${study.addedAt ? ` (added ${study.addedAt.slice(0, 10)})` : ''}`)
+      .join('\n');
+    return this.toolResult(args, output, { action, studies });
+  }
+
+  /**
+   * Log in with the credentials configured in the environment or credentials file
+   */
+  async login(args: any, context: ToolContext = {}) {
+    const status = await this.auth.login(context.signal, true);
+
+    if (!status.authenticated) {
+      return {
+        ...this.toolResult(args, `❌ Login failed: ${status.lastError || 'unknown error'}`, status),
+        isError: true
+      };
+    }
+
+    const output = `✅ Logged in to BioStudies\n\n${this.formatAuthStatus(status)}\n\n` +
+      `Private studies of this account are now accessible; the session is renewed automatically before it expires.`;
+    return this.toolResult(args, output, status);
+  }
+
+  /**
+   * Forget the session token and stop logging in automatically
+   */
+  async logout(args: any) {
+    const status = await this.auth.logout();
+    const output = `🔓 Logged out of BioStudies\n\nAutomatic login is paused until \`login\` is called again.`;
+    return this.toolResult(args, output, status);
+  }
+
+  /**
+   * Report the authentication state without revealing any secrets
+   */
+  async authStatus(args: any) {
+    const status = await this.auth.status();
+    return this.toolResult(args, `🔐 **BioStudies Authentication**\n\n${this.formatAuthStatus(status)}`, status);
+  }
+
+  /**
+   * Provide known BioStudies collections when live collection data is unavailable
+   */
+  private provideKnownCollections(args: any, error: string, filter?: string) {
+    const knownCollections = KNOWN_COLLECTIONS.filter(collection =>
+      !filter || this.matchesCollectionFilter(collection, filter)
+    );
 
     let output = `📚 **Known BioStudies Collections**\n\n`;
-    output += `⚠️ **Note**: The collections API endpoint is currently unavailable (HTTP 404). Below are the known major collections:\n\n`;
+    output += `⚠️ **Note**: Live collection data could not be retrieved (${error}). Below are well-known collections:\n\n`;
+
+    if (knownCollections.length === 0) {
+      output += `No known collections match "${filter}".`;
+    }
 
     const formattedCollections = knownCollections.map(collection => {
       let collectionOutput = `• **${collection.key}**: ${collection.name}`;
-      collectionOutput += `\n  Description: ${collection.description}`;
+      if (collection.description) collectionOutput += `\n  Description: ${collection.description}`;
       collectionOutput += `\n  Accession Pattern: ${collection.accessionPattern}`;
-      collectionOutput += `\n  Website: ${collection.website}`;
-      collectionOutput += `\n  Example Accessions: ${collection.examples.join(', ')}`;
+      if (collection.url) collectionOutput += `\n  Website: ${collection.url}`;
+      if (collection.examples.length) collectionOutput += `\n  Example Accessions: ${collection.examples.join(', ')}`;
       return collectionOutput;
     }).join('\n\n');
 
@@ -847,36 +1804,27 @@ export class BioStudiesHandlers {
     output += `\n\n**How to Use:**\n`;
     output += `• Use \`get_study_details\` with any of the example accession numbers above\n`;
     output += `• Try \`validate_study_accession\` to check if a specific accession exists\n`;
-    output += `• Use \`batch_get_studies\` to retrieve multiple studies at once\n\n`;
-
-    output += `**Collection-Specific Guidance:**\n`;
-    output += `• **ArrayExpress**: Focus on gene expression and functional genomics\n`;
-    output += `• **BioImages**: Look for microscopy and imaging studies\n`;
-    output += `• **EMPIAR**: Specialized for electron microscopy data\n`;
-    output += `• **BioStudies General**: Multi-omics and general biological studies`;
+    output += `• Use \`get_collection_studies\` with a collection key once the API is reachable`;
 
-    return {
-      content: [{
-        type: "text",
-        text: output
-      }]
-    };
+    return this.toolResult(args, output, { source: 'fallback', error, collections: knownCollections });
   }
 
   /**
    * Extract file information from study metadata when dedicated files API is unavailable
    */
-  private async extractFilesFromStudyMetadata(accno: string) {
+  private async extractFilesFromStudyMetadata(args: any, context: ToolContext) {
+    const accno: string = args.accno;
     try {
       // Use the working study details API to get metadata
-      const studyResult = await this.apiClient.getStudyDetails(accno);
+      const studyResult = await this.apiClient.getStudyDetails(accno, this.requestOptions(args, context));
 
       if (studyResult.error) {
         return {
           content: [{
             type: "text",
             text: `📁 **Files API Unavailable for ${accno}**\n\n⚠️ The dedicated files API endpoint is currently not available (HTTP 404), and we couldn't retrieve study metadata to extract file information.\n\nError: ${studyResult.error}\n\n**Alternative Approaches:**\n• Visit the study page directly: https://www.ebi.ac.uk/biostudies/studies/${accno}\n• Use \`get_study_details\` to see if file information is embedded in study metadata`
-          }]
+          }],
+          isError: true
         };
       }
 
@@ -886,33 +1834,22 @@ export class BioStudiesHandlers {
           content: [{
             type: "text",
             text: `Study ${accno} not found`
-          }]
+          }],
+          isError: true
         };
       }
 
-      // Extract files from study section data
-      const extractedFiles = [];
-
-      if (study.section?.files?.length) {
-        extractedFiles.push(...study.section.files);
-      }
-
-      // Also check subsections for files
-      if (study.section?.subsections?.length) {
-        study.section.subsections.forEach(subsection => {
-          if (subsection.files?.length) {
-            extractedFiles.push(...subsection.files);
-          }
-        });
-      }
+      // Extract files from every level of the study section tree
+      const extractedFiles = collectSectionContents(study.section).files;
+      const totalSize = extractedFiles.reduce((sum, file) => sum + (file.size || 0), 0);
+      const data = { accno, source: 'metadata', totalFiles: extractedFiles.length, totalSize, files: extractedFiles };
 
       if (extractedFiles.length === 0) {
-        return {
-          content: [{
-            type: "text",
-            text: `📁 **Files for ${accno} (via metadata extraction)**\n\n⚠️ **Note**: The dedicated files API endpoint is currently unavailable (HTTP 404). Extracted file information from study metadata.\n\nNo files found in the study metadata. This could mean:\n• The study has no associated files\n• File information is not embedded in the metadata\n• Files are referenced externally\n\n**Alternative Approaches:**\n• Check study details with \`get_study_details\` for external references\n• Visit the study page directly: https://www.ebi.ac.uk/biostudies/studies/${accno}`
-          }]
-        };
+        return this.toolResult(
+          args,
+          `📁 **Files for ${accno} (via metadata extraction)**\n\n⚠️ **Note**: The dedicated files API endpoint is currently unavailable (HTTP 404). Extracted file information from study metadata.\n\nNo files found in the study metadata. This could mean:\n• The study has no associated files\n• File information is not embedded in the metadata\n• Files are referenced externally\n\n**Alternative Approaches:**\n• Check study details with \`get_study_details\` for external references\n• Visit the study page directly: https://www.ebi.ac.uk/biostudies/studies/${accno}`,
+          data
+        );
       }
 
       const formattedFiles = extractedFiles.map(file => {
@@ -921,6 +1858,8 @@ export class BioStudiesHandlers {
         if (file.path && file.path !== file.name) {
           output += `\n  Path: ${file.path}`;
         }
+
+        output += `\n  Section: ${file.sectionPath}`;
         
         if (file.size) {
           output += `\n  Size: ${this.formatFileSize(file.size)}`;
@@ -937,46 +1876,267 @@ export class BioStudiesHandlers {
         return output;
       }).join('\n\n');
 
-      const totalSize = extractedFiles.reduce((sum, file) => sum + (file.size || 0), 0);
       const sizeInfo = totalSize > 0 ? `\nTotal size: ${this.formatFileSize(totalSize)}` : '';
 
-      return {
-        content: [{
-          type: "text",
-          text: `📁 **Files for ${accno} (via metadata extraction)**\n\n⚠️ **Note**: The dedicated files API endpoint is currently unavailable (HTTP 404). Extracted ${extractedFiles.length} files from study metadata.${sizeInfo}\n\n${formattedFiles}\n\n**Data Source:** Extracted from study section metadata via \`get_study_details\``
-        }]
-      };
+      return this.toolResult(
+        args,
+        `📁 **Files for ${accno} (via metadata extraction)**\n\n⚠️ **Note**: The dedicated files API endpoint is currently unavailable (HTTP 404). Extracted ${extractedFiles.length} files from study metadata.${sizeInfo}\n\n${formattedFiles}\n\n**Data Source:** Extracted from study section metadata via \`get_study_details\``,
+        data
+      );
 
     } catch (error) {
       return {
         content: [{
           type: "text",
           text: `📁 **Files API Unavailable for ${accno}**\n\n⚠️ The dedicated files API endpoint is currently not available (HTTP 404), and an error occurred while trying to extract file information from study metadata.\n\nError: ${error instanceof Error ? error.message : 'Unknown error'}\n\n**Alternative Approaches:**\n• Visit the study page directly: https://www.ebi.ac.uk/biostudies/studies/${accno}\n• Use \`get_study_details\` to view study metadata directly`
-        }]
+        }],
+        isError: true
+      };
+    }
+  }
+
+  /**
+   * Per-call API client options taken from tool arguments and the request context
+   */
+  private requestOptions(args: any, context: ToolContext): RequestOptions {
+    return {
+      refresh: args?.refresh === true,
+      signal: context.signal,
+      key: typeof args?.key === 'string' && args.key ? args.key : undefined
+    };
+  }
+
+  /**
+   * Files of a study from the files endpoint, or from the study section tree when that endpoint is unavailable
+   * With allowStale, expired cached metadata is used when the API cannot be reached
+   */
+  private async loadStudyFiles(args: any, context: ToolContext, allowStale = false): Promise<ApiResponse<DownloadFile[]>> {
+    const options = { ...this.requestOptions(args, context), allowStale };
+    const result = await this.apiClient.getStudyFiles(args.accno, options);
+    if (!result.error) {
+      return {
+        data: (result.data || []).map(normalizeFile),
+        status: result.status,
+        stale: result.stale,
+        cachedAt: result.cachedAt
       };
     }
+    // Offline, the cached study metadata may still list the files when no file listing was cached
+    if (result.status !== 404 && !(allowStale && isRetryableStatus(result.status))) {
+      return { error: result.error, status: result.status };
+    }
+
+    const studyResult = await this.apiClient.getStudyDetails(args.accno, options);
+    return studyResult.error
+      ? { error: studyResult.error, status: studyResult.status }
+      : {
+        data: collectSectionContents(studyResult.data?.section).files,
+        status: studyResult.status,
+        stale: studyResult.stale,
+        cachedAt: studyResult.cachedAt
+      };
   }
 
   /**
-   * Get sample accession suggestions for known collections
+   * Fetch and parse a study's MAGE-TAB files
+   * The IDF names its SDRF files; studies whose file listing has no MAGE-TAB files are tried
+   * under the ArrayExpress naming convention <accno>.idf.txt and <accno>.sdrf.txt
    */
-  private getCollectionSuggestions(collection: string): string[] {
-    const suggestions: Record<string, string[]> = {
-      'arrayexpress': [
-        'E-MTAB-7249', 'E-MTAB-6819', 'E-MTAB-5061', 'E-MTAB-4748', 'E-MTAB-4421'
-      ],
-      'bioimages': [
-        'S-BIAD423', 'S-BIAD424', 'S-BIAD425', 'S-BIAD426', 'S-BIAD427'
-      ],
-      'empiar': [
-        'EMPIAR-10001', 'EMPIAR-10002', 'EMPIAR-10003', 'EMPIAR-10004', 'EMPIAR-10005'
-      ],
-      'biostudies': [
-        'S-BSST1', 'S-BSST2', 'S-BSST3', 'S-BSST4', 'S-BSST5'
-      ]
+  private async loadMageTab(
+    args: any,
+    context: ToolContext
+  ): Promise<ApiResponse<{ idf?: MageTabIdf; idfFile?: string; tables: SdrfTable[] }>> {
+    const listing = await this.loadStudyFiles(args, context);
+    if (listing.error && listing.status !== 404) {
+      return { error: listing.error, status: listing.status };
+    }
+
+    const files = listing.data || [];
+    const listed = files.some(file => isIdfFile(file.name) || isSdrfFile(file.name));
+    const idfFile = listed ? files.find(file => isIdfFile(file.name))?.path : `${args.accno}.idf.txt`;
+    const options = this.requestOptions(args, context);
+
+    let idf: MageTabIdf | undefined;
+    if (idfFile) {
+      const idfText = await this.apiClient.getStudyTextFile(args.accno, idfFile, options);
+      if (idfText.error && (listed || idfText.status !== 404)) {
+        return { error: `${idfFile}: ${idfText.error}`, status: idfText.status };
+      }
+      if (idfText.data !== undefined) idf = parseIdf(idfText.data);
+    }
+
+    // SDRF files named in the IDF sit next to it; otherwise use every listed SDRF
+    const idfDirectory = idfFile?.includes('/') ? idfFile.slice(0, idfFile.lastIndexOf('/') + 1) : '';
+    const sdrfPaths = idf?.sdrfFiles.length
+      ? idf.sdrfFiles.map(name => files.find(file => file.name === name)?.path ?? `${idfDirectory}${name}`)
+      : listed
+        ? files.filter(file => isSdrfFile(file.name)).map(file => file.path)
+        : [`${args.accno}.sdrf.txt`];
+    if (!sdrfPaths.length) {
+      return { error: 'The study has no SDRF file', status: 404 };
+    }
+
+    const sdrfTexts = await Promise.all(sdrfPaths.map(path => this.apiClient.getStudyTextFile(args.accno, path, options)));
+    const failed = sdrfTexts.findIndex(text => text.error);
+    if (failed >= 0) {
+      const notMageTab = !listed && !idf && sdrfTexts[failed].status === 404;
+      return {
+        error: notMageTab ? 'The study has no MAGE-TAB (IDF/SDRF) files' : `${sdrfPaths[failed]}: ${sdrfTexts[failed].error}`,
+        status: sdrfTexts[failed].status
+      };
+    }
+
+    return {
+      data: {
+        idf,
+        idfFile: idf ? idfFile : undefined,
+        tables: sdrfTexts.map((text, i) => parseSdrf(sdrfPaths[i], text.data || ''))
+      },
+      status: 200
     };
+  }
+
+  /**
+   * Whether an argument is a string or a non-empty array of strings
+   */
+  private isStringOrStringArray(value: unknown): boolean {
+    return typeof value === 'string' || (Array.isArray(value) && value.length > 0 && value.every(item => typeof item === 'string'));
+  }
 
-    return suggestions[collection] || [];
+  /**
+   * Describe where a secret access key came from, without revealing it
+   */
+  private keyDescription(keySource: 'argument' | 'keyring'): string {
+    return keySource === 'argument' ? 'secret access key (saved to the local keyring)' : 'secret access key from the local keyring';
+  }
+
+  /**
+   * Build a tool result carrying the payload as structured content
+   * The text content is markdown unless the caller asked for format "json"
+   */
+  private toolResult(args: any, markdown: string, data: object) {
+    const text = args?.format === 'json' ? JSON.stringify(data, null, 2) : markdown;
+    return {
+      content: [{
+        type: "text",
+        text
+      }],
+      structuredContent: data
+    };
+  }
+
+  /**
+   * Validate facet filters of the form { organism: ["Homo sapiens"] }
+   */
+  private parseFacetFilters(facets: any): Record<string, string[]> | undefined {
+    if (!facets) return undefined;
+
+    if (typeof facets !== 'object' || Array.isArray(facets)) {
+      throw new ToolArgumentError('Facets parameter must be an object mapping facet names to arrays of values');
+    }
+
+    const filters: Record<string, string[]> = {};
+    Object.entries(facets).forEach(([name, values]) => {
+      const list = Array.isArray(values) ? values : [values];
+      const strings = list.filter((value): value is string => typeof value === 'string' && value.length > 0);
+      if (strings.length) filters[name] = strings;
+    });
+
+    return Object.keys(filters).length ? filters : undefined;
+  }
+
+  /**
+   * Case-insensitive match of a collection's key, name or description against a filter
+   */
+  private matchesCollectionFilter(collection: Collection, filter: string): boolean {
+    return [collection.key, collection.name, collection.description]
+      .some(field => field?.toLowerCase().includes(filter));
+  }
+
+  /**
+   * Describe the current page position and how to fetch the next page
+   */
+  private formatPagination(pagination: PaginationInfo, shown: number): string {
+    let output = `Page ${pagination.page} of ${pagination.totalPages}, showing ${shown} of ${pagination.totalResults.toLocaleString()} total results.`;
+    if (pagination.hasNext) {
+      output += ` Use page ${pagination.page + 1} for more.`;
+    }
+    return output;
+  }
+
+  /**
+   * Format facets and their value counts as a markdown list
+   */
+  private formatFacets(facets: Facet[], maxValues: number): string {
+    let output = `**Facets:**\n`;
+    facets.forEach(facet => {
+      if (facet.values.length === 0) return;
+      output += `  • **${facet.title || facet.name}** (\`${facet.name}\`): `;
+      output += facet.values.slice(0, maxValues).map(v => `${v.value} (${v.count.toLocaleString()})`).join(', ');
+      if (facet.values.length > maxValues) {
+        output += `, ... ${facet.values.length - maxValues} more`;
+      }
+      output += '\n';
+    });
+    return output.trim();
+  }
+
+  /**
+   * Format the authentication state as markdown lines
+   */
+  private formatAuthStatus(status: AuthStatus): string {
+    const sources: Record<string, string> = {
+      environment: 'environment variables',
+      credentials_file: 'credentials file',
+      session_file: 'saved session'
+    };
+
+    const lines = [`**Status:** ${status.authenticated ? '✅ Logged in' : '❌ Not logged in'}`];
+    if (status.user) lines.push(`**User:** ${status.user}`);
+    if (status.expires) {
+      const remaining = status.expiresInSeconds !== undefined ? ` (in ${Math.ceil(status.expiresInSeconds / 60)} min)` : '';
+      lines.push(`**Expires:** ${status.expires}${remaining}`);
+    }
+    if (status.tokenSource) lines.push(`**Token from:** ${sources[status.tokenSource]}`);
+    lines.push(`**Credentials:** ${status.credentialsSource ? sources[status.credentialsSource] : 'none configured'}`);
+    lines.push(`**Automatic login:** ${status.autoLogin ? 'enabled' : 'disabled'}`);
+    if (status.lastError) lines.push(`**Last error:** ${status.lastError}`);
+    return lines.join('\n');
+  }
+
+  /**
+   * Format a publication as a single citation line
+   */
+  private formatPublication(publication: Publication): string {
+    let output = publication.title || 'Untitled publication';
+    if (publication.authors) output = `${publication.authors}. ${output}`;
+    if (publication.journal) {
+      output += `. ${publication.journal}`;
+      if (publication.volume) output += ` ${publication.volume}`;
+      if (publication.issue) output += `(${publication.issue})`;
+      if (publication.pages) output += `:${publication.pages}`;
+    }
+    if (publication.year) output += ` (${publication.year})`;
+    if (publication.doi) output += ` doi:${publication.doi}`;
+    if (publication.pmid) output += ` PMID:${publication.pmid}`;
+    return output;
+  }
+
+  /**
+   * Data availability sentence for a manuscript, naming each study's accession and DOI or URL
+   * Studies opened with a secret key are not public yet, so the sentence does not call them openly available
+   */
+  private dataAvailabilityStatement(studies: Array<{ accno: string; doi?: string; private?: boolean }>): string {
+    const references = studies.map(study =>
+      `${study.accno} (${study.doi ? `https://doi.org/${study.doi}` : studyLandingPage(study.accno)})`
+    );
+    const list = references.length === 1
+      ? `under accession number ${references[0]}`
+      : `under accession numbers ${references.slice(0, -1).join(', ')} and ${references[references.length - 1]}`;
+    const availability = studies.some(study => study.private)
+      ? 'will be made available in BioStudies on publication'
+      : 'are openly available in BioStudies';
+    return `The data that support the findings of this study ${availability} ${list}.`;
   }
 
   /**
@@ -0,0 +1,173 @@
+/**
+ * BioStudies Prompt Handlers - Parameterised MCP prompts for common study-analysis workflows
+ * Each prompt embeds the normalized study metadata as a resource in the prompt messages
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BioStudiesHandlers, ToolContext } from './biostudies-handlers.js';
+
+/**
+ * Maximum number of files and links embedded per study, to keep prompts within context limits
+ */
+const MAX_EMBEDDED_ITEMS = 50;
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: Array<{
+    name: string;
+    description: string;
+    required: boolean;
+  }>;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'summarize_study_methods',
+    description: 'Summarise a study for the methods section of a manuscript, citing the dataset accession',
+    arguments: [
+      { name: 'accno', description: 'Study accession number (e.g. E-MTAB-7249)', required: true }
+    ]
+  },
+  {
+    name: 'assess_study_reuse',
+    description: 'Assess whether a study is suitable for reuse to answer a research question',
+    arguments: [
+      { name: 'accno', description: 'Study accession number', required: true },
+      { name: 'question', description: 'Research question the data would be reused for', required: true }
+    ]
+  },
+  {
+    name: 'compare_studies',
+    description: 'Compare the design, samples and data of two studies',
+    arguments: [
+      { name: 'a', description: 'Accession number of the first study', required: true },
+      { name: 'b', description: 'Accession number of the second study', required: true }
+    ]
+  }
+];
+
+export class BioStudiesPromptHandlers {
+  private handlers: BioStudiesHandlers;
+
+  constructor(handlers: BioStudiesHandlers) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * List the available prompts and their arguments
+   */
+  listPrompts() {
+    return { prompts: PROMPTS };
+  }
+
+  /**
+   * Build the messages of a prompt, fetching the studies it refers to
+   */
+  async getPrompt(name: string, args: Record<string, string> = {}, context: ToolContext = {}) {
+    const prompt = PROMPTS.find(p => p.name === name);
+    if (!prompt) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown prompt: ${name}. Available prompts: ${PROMPTS.map(p => p.name).join(', ')}`
+      );
+    }
+
+    const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]);
+    if (missing.length) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`
+      );
+    }
+
+    switch (name) {
+      case 'summarize_study_methods':
+        return {
+          description: `Methods summary for ${args.accno}`,
+          messages: [
+            await this.studyMessage(args.accno, context),
+            this.textMessage(
+              `Using the BioStudies metadata above, write a concise paragraph for the methods section of a manuscript describing study ${args.accno}. ` +
+              `Cover the organism and samples, experimental design, technology or assay, and data processing where the metadata states them. ` +
+              `Do not invent details that are not in the metadata; say explicitly when something is not reported. ` +
+              `End with a data availability sentence citing the accession ${args.accno} and the BioStudies URL.`
+            )
+          ]
+        };
+
+      case 'assess_study_reuse':
+        return {
+          description: `Reuse assessment of ${args.accno}`,
+          messages: [
+            await this.studyMessage(args.accno, context),
+            this.textMessage(
+              `Assess whether study ${args.accno} can be reused to answer this research question:\n\n"${args.question}"\n\n` +
+              `Using only the BioStudies metadata above, evaluate: relevance of organism, samples and conditions; ` +
+              `experimental design and replication; availability and type of data files (raw vs processed); ` +
+              `licensing or access restrictions; and any gaps in the metadata. ` +
+              `Finish with a verdict (suitable / partially suitable / not suitable) and the key reasons.`
+            )
+          ]
+        };
+
+      default:
+        return {
+          description: `Comparison of ${args.a} and ${args.b}`,
+          messages: [
+            await this.studyMessage(args.a, context),
+            await this.studyMessage(args.b, context),
+            this.textMessage(
+              `Compare studies ${args.a} and ${args.b} using the BioStudies metadata above. ` +
+              `Present a table covering organism, sample types, experimental factors, technology, number and kinds of data files, release date and publications, ` +
+              `then summarise whether the datasets could be combined in a joint analysis and what would need harmonising.`
+            )
+          ]
+        };
+    }
+  }
+
+  /**
+   * Fetch a study and embed its normalized metadata as a resource message
+   */
+  private async studyMessage(accno: string, context: ToolContext) {
+    const result = await this.handlers.getStudyDetails({ accno }, context);
+
+    if (('isError' in result && result.isError) || !('structuredContent' in result)) {
+      throw new McpError(ErrorCode.InvalidParams, result.content[0]?.text || `Study ${accno} could not be retrieved`);
+    }
+
+    const study: any = { ...result.structuredContent };
+    (['files', 'links'] as const).forEach(key => {
+      if (Array.isArray(study[key]) && study[key].length > MAX_EMBEDDED_ITEMS) {
+        study[`${key}Truncated`] = `${study[key].length - MAX_EMBEDDED_ITEMS} more ${key} omitted`;
+        study[key] = study[key].slice(0, MAX_EMBEDDED_ITEMS);
+      }
+    });
+
+    return {
+      role: 'user' as const,
+      content: {
+        type: 'resource' as const,
+        resource: {
+          uri: `biostudies://study/${accno}`,
+          mimeType: 'application/json',
+          text: JSON.stringify(study, null, 2)
+        }
+      }
+    };
+  }
+
+  /**
+   * Build a plain text user message
+   */
+  private textMessage(text: string) {
+    return {
+      role: 'user' as const,
+      content: {
+        type: 'text' as const,
+        text
+      }
+    };
+  }
+}
@@ -0,0 +1,123 @@
+/**
+ * BioStudies Resource Handlers - MCP resources for studies, study files and collections
+ * Resources reuse the tool handlers so their JSON matches the tools' structured output
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { BioStudiesHandlers, ToolContext } from './biostudies-handlers.js';
+
+const JSON_MIME_TYPE = 'application/json';
+const MARKDOWN_MIME_TYPE = 'text/markdown';
+
+const STUDY_URI = /^biostudies:\/\/study\/([^/?#]+)(\/files)?(?:\?format=(json|markdown))?$/i;
+const COLLECTION_URI = /^biostudies:\/\/collection\/([^/?#]+)(?:\?format=(json|markdown))?$/i;
+
+export class BioStudiesResourceHandlers {
+  private handlers: BioStudiesHandlers;
+
+  constructor(handlers: BioStudiesHandlers) {
+    this.handlers = handlers;
+  }
+
+  /**
+   * List the URI templates for studies, study files and collections
+   */
+  listResourceTemplates() {
+    return {
+      resourceTemplates: [
+        {
+          uriTemplate: 'biostudies://study/{accno}{?format}',
+          name: 'BioStudies study',
+          description: 'Normalized metadata of a study: title, authors, publications, funding, files and links. Use ?format=markdown for a readable summary.',
+          mimeType: JSON_MIME_TYPE
+        },
+        {
+          uriTemplate: 'biostudies://study/{accno}/files{?format}',
+          name: 'BioStudies study files',
+          description: 'Every file of a study with path, size, MD5 and section path. Use ?format=markdown for a readable listing.',
+          mimeType: JSON_MIME_TYPE
+        },
+        {
+          uriTemplate: 'biostudies://collection/{key}{?format}',
+          name: 'BioStudies collection',
+          description: 'A collection with its total study count and first page of studies. Use ?format=markdown for a readable listing.',
+          mimeType: JSON_MIME_TYPE
+        }
+      ]
+    };
+  }
+
+  /**
+   * List collections as concrete resources; studies are only reachable through templates
+   */
+  async listResources(context: ToolContext = {}) {
+    const { collections } = await this.handlers.getCollections({}, context);
+
+    return {
+      resources: collections.map(collection => ({
+        uri: `biostudies://collection/${collection.key}`,
+        name: collection.name,
+        description: collection.description,
+        mimeType: JSON_MIME_TYPE
+      }))
+    };
+  }
+
+  /**
+   * Read a study, study files or collection resource as JSON or markdown
+   */
+  async readResource(uri: string, context: ToolContext = {}) {
+    const studyMatch = uri.match(STUDY_URI);
+    if (studyMatch) {
+      const [, accno, files, format] = studyMatch;
+      const args = { accno: decodeURIComponent(accno) };
+      const result = files
+        ? await this.handlers.getStudyFiles(args, context)
+        : await this.handlers.getStudyDetails(args, context);
+      return this.toResourceContents(uri, result, format);
+    }
+
+    const collectionMatch = uri.match(COLLECTION_URI);
+    if (collectionMatch) {
+      const [, key, format] = collectionMatch;
+      const result = await this.handlers.getCollectionStudies({ collection: decodeURIComponent(key) }, context);
+      return this.toResourceContents(uri, result, format);
+    }
+
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown resource URI: ${uri}. Supported: biostudies://study/{accno}, biostudies://study/{accno}/files, biostudies://collection/{key}`
+    );
+  }
+
+  /**
+   * Convert a tool result into resource contents, failing if the tool reported an error
+   */
+  private toResourceContents(
+    uri: string,
+    result: { content: Array<{ text: string }>; structuredContent?: object; isError?: boolean },
+    format?: string
+  ) {
+    if (result.isError || !result.structuredContent) {
+      throw new McpError(ErrorCode.InvalidParams, result.content[0]?.text || `Resource not available: ${uri}`);
+    }
+
+    if (format?.toLowerCase() === 'markdown') {
+      return {
+        contents: [{
+          uri,
+          mimeType: MARKDOWN_MIME_TYPE,
+          text: result.content[0].text
+        }]
+      };
+    }
+
+    return {
+      contents: [{
+        uri,
+        mimeType: JSON_MIME_TYPE,
+        text: JSON.stringify(result.structuredContent, null, 2)
+      }]
+    };
+  }
+}
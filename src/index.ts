@@ -4,9 +4,25 @@
  * BioStudies MCP Server - A Model Context Protocol server for the EBI BioStudies API
  * 
  * This server provides reliable tools to interact with the BioStudies API including:
+ * - Searching studies by free text, collection, author and facet values
+ * - Exploring facet value counts to narrow searches
+ * - Listing collections and paging through their studies
  * - Getting comprehensive information about specific studies with rich metadata extraction
  * - Validating study accession numbers and checking study existence
  * - Batch processing multiple studies efficiently
+ * - Downloading study files with resumable, checksum-verified transfers
+ * - Generating wget, curl, aria2 and Aspera download manifests for downloads elsewhere
+ * - Verifying local copies of study files against their metadata, offline from cached metadata
+ * - Exporting study metadata as schema.org Dataset JSON-LD and RO-Crate metadata
+ * - Citing studies and their publications in BibTeX, RIS and CSL-JSON
+ * - Reading the experimental design of ArrayExpress studies from their MAGE-TAB files
+ * - Filtering and grouping ArrayExpress samples by characteristics and factor values
+ * - Previewing processed expression matrices without downloading them
+ * - Exposing studies, study files and collections as MCP resources
+ * - Prompts for common study-analysis workflows
+ * - Logging in to access private studies, with automatic session renewal
+ * - Opening private studies with secret access keys kept in a local keyring
+ * - Serving over stdio or, for shared team instances, Streamable HTTP with a fixed login and read-only keyring
  * 
  * BioStudies contains millions of studies and associated data files from
  * various biological research domains and is widely used in life sciences research.
@@ -20,147 +36,891 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
   ErrorCode,
   McpError,
 } from "@modelcontextprotocol/sdk/types.js";
 
-import { BioStudiesHandlers } from "./handlers/biostudies-handlers.js";
+import { BioStudiesHandlers, ToolArgumentError, ToolContext } from "./handlers/biostudies-handlers.js";
+import { BioStudiesApiClient, MAX_BATCH_SIZE } from "./utils/api-client.js";
+import { ConfigError, ServerConfig, describeConfig, isToolEnabled, loadConfig } from "./utils/config.js";
+import { McpHttpServer } from "./utils/http-server.js";
+import { AuthManager } from "./utils/auth-manager.js";
+import { StudyKeyring } from "./utils/study-keyring.js";
+import { DEFAULT_DOWNLOAD_CONCURRENCY, FileDownloader, MAX_DOWNLOAD_CONCURRENCY } from "./utils/file-downloader.js";
+import { MANIFEST_FORMATS, MAX_MANIFEST_STUDIES } from "./utils/download-manifest.js";
+import { EXPORT_FORMATS } from "./utils/metadata-export.js";
+import { CITATION_FORMATS } from "./utils/citation-formatter.js";
+import { BioStudiesResourceHandlers } from "./handlers/resource-handlers.js";
+import { BioStudiesPromptHandlers } from "./handlers/prompt-handlers.js";
+import {
+  FORMAT_PROPERTY,
+  REFRESH_PROPERTY,
+  SEARCH_RESPONSE_SCHEMA,
+  FACET_LIST_SCHEMA,
+  COLLECTION_LIST_SCHEMA,
+  STUDY_DETAILS_SCHEMA,
+  STUDY_FILES_SCHEMA,
+  STUDY_LINKS_SCHEMA,
+  STUDY_VALIDATION_SCHEMA,
+  BULK_OPERATION_SCHEMA,
+  AUTH_STATUS_SCHEMA,
+  STUDY_KEYS_SCHEMA,
+  KEY_PROPERTY,
+  DOWNLOAD_RESULT_SCHEMA,
+  DOWNLOAD_MANIFEST_SCHEMA,
+  VERIFICATION_RESULT_SCHEMA,
+  METADATA_EXPORT_SCHEMA,
+  CITATION_SCHEMA,
+  EXPERIMENT_DESIGN_SCHEMA,
+  SAMPLE_QUERY_SCHEMA,
+  MATRIX_PREVIEW_SCHEMA,
+} from "./schemas/output-schemas.js";
 
 /**
- * Create an MCP server with BioStudies functionality
+ * Tool definitions; tools can be disabled through the server configuration
  */
-const server = new Server(
+const TOOLS = [
   {
-    name: "biostudies-server",
-    version: "0.1.0",
-  }
-);
-
-// Initialize BioStudies handlers
-const bioStudiesHandlers = new BioStudiesHandlers();
-
-/**
- * Handler that lists all available BioStudies tools
- */
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: "get_study_details",
-        description: "Get comprehensive information about a specific biological study by its accession number. This tool provides rich metadata including study attributes, section details, external references, associated files, and subsections.",
-        inputSchema: {
+    name: "search_studies",
+    description: "Search BioStudies for studies matching a free-text query, optionally restricted to a collection (e.g. arrayexpress, bioimages) and filtered by facet values. Returns matching studies with total hit count, pagination and available facets.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Free-text search query (supports Lucene syntax, e.g. \"liver AND mouse\")"
+        },
+        collection: {
+          type: "string",
+          description: "Restrict the search to a collection key (e.g. arrayexpress, bioimages, empiar)"
+        },
+        author: {
+          type: "string",
+          description: "Filter by author name"
+        },
+        type: {
+          type: "string",
+          description: "Filter by entry type (e.g. study, collection)"
+        },
+        facets: {
           type: "object",
-          properties: {
-            accno: {
-              type: "string",
-              description: "Study accession number (e.g., S-BSST1234, E-MTAB-1234, EMPIAR-1234)"
-            }
-          },
-          required: ["accno"]
-        }
+          description: "Facet filters mapping facet names to accepted values, e.g. {\"organism\": [\"Homo sapiens\"]}",
+          additionalProperties: {
+            type: "array",
+            items: { type: "string" }
+          }
+        },
+        releaseDateFrom: {
+          type: "string",
+          description: "Earliest release date (YYYY-MM-DD)"
+        },
+        releaseDateTo: {
+          type: "string",
+          description: "Latest release date (YYYY-MM-DD)"
+        },
+        page: {
+          type: "number",
+          description: "Page number, starting at 1 (default: 1)",
+          minimum: 1
+        },
+        size: {
+          type: "number",
+          description: "Results per page (default: 20, maximum: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        sortBy: {
+          type: "string",
+          enum: ["relevance", "release_date", "views", "title"],
+          description: "Sort field (default: relevance)"
+        },
+        sortOrder: {
+          type: "string",
+          enum: ["asc", "desc"],
+          description: "Sort direction (default: desc)"
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      }
+    },
+    outputSchema: SEARCH_RESPONSE_SCHEMA
+  },
+  {
+    name: "list_facets",
+    description: "List the facets (e.g. organism, technology, study type, release year) available for a search query or collection, with the number of studies for each value. Facet names and values can be passed to search_studies to filter results.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        query: {
+          type: "string",
+          description: "Free-text search query to compute facets for"
+        },
+        collection: {
+          type: "string",
+          description: "Collection key to compute facets for (e.g. arrayexpress, bioimages)"
+        },
+        facets: {
+          type: "object",
+          description: "Facet filters already applied, mapping facet names to accepted values",
+          additionalProperties: {
+            type: "array",
+            items: { type: "string" }
+          }
+        },
+        facet: {
+          type: "string",
+          description: "Only show this facet (e.g. organism)"
+        },
+        limit: {
+          type: "number",
+          description: "Maximum values shown per facet (default: 10, maximum: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      }
+    },
+    outputSchema: FACET_LIST_SCHEMA
+  },
+  {
+    name: "list_collections",
+    description: "List BioStudies collections (e.g. ArrayExpress, BioImages, Europe PMC and project collections) with their study counts, retrieved from the live API. Falls back to a list of well-known collections if the API is unreachable.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        filter: {
+          type: "string",
+          description: "Only show collections whose key, name or description contains this text"
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      }
+    },
+    outputSchema: COLLECTION_LIST_SCHEMA
+  },
+  {
+    name: "get_collection_studies",
+    description: "Page through the studies in a BioStudies collection. Returns one page of studies with the collection's total study count and pagination details.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        collection: {
+          type: "string",
+          description: "Collection key as returned by list_collections (e.g. arrayexpress, bioimages)"
+        },
+        page: {
+          type: "number",
+          description: "Page number, starting at 1 (default: 1)",
+          minimum: 1
+        },
+        size: {
+          type: "number",
+          description: "Studies per page (default: 20, maximum: 100)",
+          minimum: 1,
+          maximum: 100
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
       },
-      {
-        name: "validate_study_accession",
-        description: "Validate a study accession number format and check if the study exists. Supports all BioStudies accession formats including S-BSST, E-MTAB, EMPIAR, S-BIAD, and others.",
-        inputSchema: {
+      required: ["collection"]
+    },
+    outputSchema: SEARCH_RESPONSE_SCHEMA
+  },
+  {
+    name: "get_study_details",
+    description: "Get comprehensive information about a specific biological study by its accession number. This tool provides rich metadata including study attributes, section details, external references, associated files, and subsections.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., S-BSST1234, E-MTAB-1234, EMPIAR-1234)"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: STUDY_DETAILS_SCHEMA
+  },
+  {
+    name: "get_study_files",
+    description: "List every file in a study, including files nested in subsections and file tables, with path, size, MD5 checksum and the section that holds each file.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., S-BSST1234, E-MTAB-1234)"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: STUDY_FILES_SCHEMA
+  },
+  {
+    name: "get_study_links",
+    description: "List the external links of a study (e.g. ENA, PDB, BioSamples references) with their attributes and the section that holds each link.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., S-BSST1234, E-MTAB-1234)"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: STUDY_LINKS_SCHEMA
+  },
+  {
+    name: "validate_study_accession",
+    description: "Validate a study accession number format and check if the study exists. Supports all BioStudies accession formats including S-BSST, E-MTAB, EMPIAR, S-BIAD, and others.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number to validate"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: STUDY_VALIDATION_SCHEMA
+  },
+  {
+    name: "batch_get_studies",
+    description: "Retrieve normalized summaries (title, authors, publications, files) for multiple studies in a single request (maximum 1000 studies). Requests are throttled by a shared concurrency limit and rate budget. Sends progress notifications as each study completes when the client supplies a progress token, and reports per-study timing and error categories.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accessions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Array of study accession numbers to retrieve",
+          maxItems: MAX_BATCH_SIZE,
+          minItems: 1
+        },
+        keys: {
           type: "object",
-          properties: {
-            accno: {
-              type: "string",
-              description: "Study accession number to validate"
-            }
-          },
-          required: ["accno"]
-        }
+          additionalProperties: { type: "string" },
+          description: "Secret access keys of private studies, keyed by accession number (e.g. {\"S-BSST1234\": \"<key>\"}). Keys already in the local keyring are used automatically."
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accessions"]
+    },
+    outputSchema: BULK_OPERATION_SCHEMA
+  },
+  {
+    name: "download_study_files",
+    description: "Download files of a study, or a selection of them, from the BioStudies file server into the local download directory, keeping each file's path within the study. Interrupted transfers resume where they stopped, files already downloaded are skipped, and MD5 checksums are verified when the study metadata has them. Sends progress notifications when the client supplies a progress token.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'S-BSST1234')"
+        },
+        files: {
+          type: "array",
+          items: { type: "string" },
+          description: "Paths of the files to download, as listed by get_study_files (default: all files)"
+        },
+        pattern: {
+          type: "string",
+          description: "Glob selecting files, e.g. '*.fastq.gz' (matched against file names) or 'raw/**' (matched against paths)"
+        },
+        directory: {
+          type: "string",
+          description: "Subdirectory of the configured download directory to save into; files go to <directory>/<accno>/<path>"
+        },
+        parallel: {
+          type: "integer",
+          minimum: 1,
+          maximum: MAX_DOWNLOAD_CONCURRENCY,
+          default: DEFAULT_DOWNLOAD_CONCURRENCY,
+          description: "Number of files transferred at the same time"
+        },
+        verify: {
+          type: "boolean",
+          default: true,
+          description: "Verify MD5 checksums of downloaded and already present files when the metadata has them"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: DOWNLOAD_RESULT_SCHEMA
+  },
+  {
+    name: "generate_download_manifest",
+    description: "Generate a download manifest for files of one or more studies, to download them outside the MCP server (e.g. on HPC nodes): a wget or curl shell script, an aria2 input file, an Aspera ascp file-pair list or a plain URL list, together with an md5sum-compatible checksum file. Files are laid out as <accno>/<path>.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accessions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Study accession numbers whose files to include",
+          maxItems: MAX_MANIFEST_STUDIES,
+          minItems: 1
+        },
+        manifestFormat: {
+          type: "string",
+          enum: MANIFEST_FORMATS,
+          description: "wget or curl (bash script), aria2 (aria2c --input-file), aspera (ascp --file-pair-list) or urls (one URL per line)"
+        },
+        pattern: {
+          type: "string",
+          description: "Glob selecting files, e.g. '*.fastq.gz' (matched against file names) or 'raw/**' (matched against paths)"
+        },
+        keys: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Secret access keys of private studies, keyed by accession number. Keys already in the local keyring are used automatically."
+        },
+        includeKeys: {
+          type: "boolean",
+          default: false,
+          description: "Append the secret access keys of private studies to their URLs. The keys then appear in the manifest and tool output."
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accessions", "manifestFormat"]
+    },
+    outputSchema: DOWNLOAD_MANIFEST_SCHEMA
+  },
+  {
+    name: "verify_study_files",
+    description: "Check that a local copy of a study's files is complete: compares the files on disk with the study's file metadata and reports files that are missing, have the wrong size or fail their MD5 check, and files on disk that the study does not list. Falls back to cached metadata when BioStudies cannot be reached.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'S-BIAD423')"
+        },
+        directory: {
+          type: "string",
+          description: "Directory holding the study's files at their paths within the study; resolved against the download directory and must stay inside it (default: <download directory>/<accno>)"
+        },
+        pattern: {
+          type: "string",
+          description: "Only check files matching this glob, e.g. '*.tif' (matched against file names) or 'raw/**' (matched against paths)"
+        },
+        checksums: {
+          type: "boolean",
+          default: true,
+          description: "Verify MD5 checksums where the metadata has them; false checks sizes only, which is much faster for large datasets"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: VERIFICATION_RESULT_SCHEMA
+  },
+  {
+    name: "export_study_metadata",
+    description: "Export a study's metadata as a schema.org Dataset JSON-LD document or as an RO-Crate ro-crate-metadata.json, with authors as creators (linked to their ORCIDs), publications as citations, funding, links and the study's files as hasPart entries. Can save the document into the study's download directory, which makes downloaded files a self-describing RO-Crate.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'S-BIAD423')"
+        },
+        exportFormat: {
+          type: "string",
+          enum: EXPORT_FORMATS,
+          default: "schema_org",
+          description: "schema_org for a stand-alone Dataset JSON-LD document, ro_crate for RO-Crate 1.1 metadata whose file entries are paths relative to the study directory"
+        },
+        save: {
+          type: "boolean",
+          default: false,
+          description: "Also write the document (dataset.jsonld or ro-crate-metadata.json) into the study's download directory"
+        },
+        directory: {
+          type: "string",
+          description: "Subdirectory of the download directory that holds the study directory, as used with download_study_files"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: METADATA_EXPORT_SCHEMA
+  },
+  {
+    name: "cite_study",
+    description: "Cite one or more studies in BibTeX, RIS or CSL-JSON: each study as a dataset (title, authors, release year and DOI or BioStudies URL) followed by its linked publications, plus a ready-made data availability statement for manuscripts.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accessions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Study accession numbers to cite",
+          maxItems: MAX_BATCH_SIZE,
+          minItems: 1
+        },
+        citationFormat: {
+          type: "string",
+          enum: CITATION_FORMATS,
+          default: "bibtex",
+          description: "bibtex, ris (for EndNote, Zotero and Mendeley) or csl_json (for Pandoc and other CSL processors)"
+        },
+        includePublications: {
+          type: "boolean",
+          default: true,
+          description: "Also cite the publications linked to each study"
+        },
+        keys: {
+          type: "object",
+          additionalProperties: { type: "string" },
+          description: "Secret access keys of private studies, keyed by accession number. Keys already in the local keyring are used automatically."
+        },
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accessions"]
+    },
+    outputSchema: CITATION_SCHEMA
+  },
+  {
+    name: "get_experiment_design",
+    description: "Read the MAGE-TAB IDF and SDRF files of an ArrayExpress study (E-MTAB, E-GEOD, ...) and return its experimental design: sources with their characteristics, experimental factors and their values, protocols, and which data files each assay produced.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'E-MTAB-5214')"
+        },
+        limit: {
+          type: "number",
+          default: 100,
+          minimum: 1,
+          maximum: 1000,
+          description: "Maximum number of sources and of assays to return; counts always cover the whole experiment"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
       },
-      {
-        name: "batch_get_studies",
-        description: "Retrieve information for multiple studies in a single request (maximum 50 studies). Efficiently processes multiple accession numbers and provides success/failure status for each.",
-        inputSchema: {
+      required: ["accno"]
+    },
+    outputSchema: EXPERIMENT_DESIGN_SCHEMA
+  },
+  {
+    name: "query_samples",
+    description: "Filter and group the samples of an ArrayExpress study by the characteristics and factor values in its SDRF sample table, e.g. samples where organism part is liver and disease is normal, or the number of samples per genotype. Returns the matching samples with their raw and processed data files.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'E-MTAB-5214')"
+        },
+        filters: {
           type: "object",
-          properties: {
-            accessions: {
-              type: "array",
-              items: { type: "string" },
-              description: "Array of study accession numbers to retrieve",
-              maxItems: 50,
-              minItems: 1
-            }
+          additionalProperties: {
+            oneOf: [
+              { type: "string" },
+              { type: "array", items: { type: "string" }, minItems: 1 }
+            ]
           },
-          required: ["accessions"]
-        }
+          description: "Required values by column, e.g. {\"organism part\": \"liver\", \"disease\": [\"normal\", \"NASH\"]}. Columns are characteristic or factor names; prefix with 'Characteristics[...]' or 'Factor Value[...]' to pick one. Case is ignored."
+        },
+        groupBy: {
+          oneOf: [
+            { type: "string" },
+            { type: "array", items: { type: "string" }, minItems: 1 }
+          ],
+          description: "Column or columns to count the matching samples by, e.g. 'genotype'"
+        },
+        limit: {
+          type: "number",
+          default: 100,
+          minimum: 1,
+          maximum: 1000,
+          description: "Maximum number of samples to return; counts, groups and file lists cover all matches"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: SAMPLE_QUERY_SCHEMA
+  },
+  {
+    name: "preview_expression_matrix",
+    description: "Summarize a processed data matrix (e.g. normalised expression or count table) of a study by streaming only its first megabytes: dimensions, column headers matched to SDRF assays, the first rows, per-column statistics and whether the values look like raw counts, linear values or log-transformed data. Finds candidate matrices from the SDRF's derived data files and file names when no path is given.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        accno: {
+          type: "string",
+          description: "Study accession number (e.g., 'E-MTAB-5214')"
+        },
+        path: {
+          type: "string",
+          description: "Path of the matrix file within the study (default: the most likely processed data matrix)"
+        },
+        previewRows: {
+          type: "number",
+          default: 10,
+          minimum: 1,
+          maximum: 100,
+          description: "Number of rows to include in the preview"
+        },
+        maxScanMb: {
+          type: "number",
+          default: 16,
+          maximum: 256,
+          description: "Megabytes of the file to read for row counts and statistics; larger files get an estimated row count"
+        },
+        key: KEY_PROPERTY,
+        format: FORMAT_PROPERTY,
+        refresh: REFRESH_PROPERTY
+      },
+      required: ["accno"]
+    },
+    outputSchema: MATRIX_PREVIEW_SCHEMA
+  },
+  {
+    name: "study_keys",
+    description: "List the private studies whose secret access keys are saved in the local keyring, or remove a saved key. Keys themselves are never shown.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          enum: ["list", "remove"],
+          description: "List saved studies (default) or remove the key of one study"
+        },
+        accno: {
+          type: "string",
+          description: "Study accession number whose key to remove (required for remove)"
+        },
+        format: FORMAT_PROPERTY
       }
-    ]
-  };
-});
+    },
+    outputSchema: STUDY_KEYS_SCHEMA
+  },
+  {
+    name: "login",
+    description: "Log in to BioStudies to access private studies of the configured account. Credentials are taken from the BIOSTUDIES_LOGIN/BIOSTUDIES_PASSWORD or BIOSTUDIES_TOKEN environment variables or the credentials file, never from tool arguments. The session is saved and renewed automatically before it expires.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: FORMAT_PROPERTY
+      }
+    },
+    outputSchema: AUTH_STATUS_SCHEMA
+  },
+  {
+    name: "logout",
+    description: "Log out of BioStudies, discarding the saved session and pausing automatic login until login is called again.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: FORMAT_PROPERTY
+      }
+    },
+    outputSchema: AUTH_STATUS_SCHEMA
+  },
+  {
+    name: "auth_status",
+    description: "Show whether the server is logged in to BioStudies, as which user, when the session expires and where credentials come from. Never reveals passwords or tokens.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        format: FORMAT_PROPERTY
+      }
+    },
+    outputSchema: AUTH_STATUS_SCHEMA
+  }
+];
 
 /**
- * Handler for executing BioStudies tools
+ * Create an MCP server with BioStudies functionality, using the given configuration
+ * Servers created for different HTTP sessions share one API client, and so its cache, rate limits, login and keyring;
+ * over HTTP the login comes only from the environment or credentials file and the keyring is read-only
  */
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+function createServer(
+  config: ServerConfig,
+  apiClient: BioStudiesApiClient,
+  auth: AuthManager,
+  keyring: StudyKeyring,
+  downloader: FileDownloader
+): Server {
+  const server = new Server(
+    {
+      name: "biostudies-server",
+      version: "0.1.0",
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: {},
+        prompts: {},
+      },
+    }
+  );
 
-  try {
-    switch (name) {
-      case "get_study_details":
-        return await bioStudiesHandlers.getStudyDetails(args);
+  // Initialize BioStudies handlers
+  const bioStudiesHandlers = new BioStudiesHandlers(apiClient, auth, keyring, downloader);
+  const resourceHandlers = new BioStudiesResourceHandlers(bioStudiesHandlers);
+  const promptHandlers = new BioStudiesPromptHandlers(bioStudiesHandlers);
 
-      case "validate_study_accession":
-        return await bioStudiesHandlers.validateStudyAccession(args);
+  /**
+   * Handler that lists the enabled BioStudies tools
+   */
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: TOOLS.filter(tool => isToolEnabled(config, tool.name))
+    };
+  });
 
-      case "batch_get_studies":
-        return await bioStudiesHandlers.batchGetStudies(args);
 
-      default:
-        throw new McpError(
-          ErrorCode.MethodNotFound,
-          `Unknown tool: ${name}. Available tools: get_study_details, validate_study_accession, batch_get_studies`
-        );
-    }
-  } catch (error) {
-    // Handle both McpError and regular errors
-    if (error instanceof McpError) {
-      throw error;
+  /**
+   * Handler for executing BioStudies tools
+   */
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const progressToken = request.params._meta?.progressToken;
+
+    const context: ToolContext = {
+      signal: extra.signal,
+      reportProgress: progressToken === undefined
+        ? undefined
+        : async (progress, total, message) => {
+            await extra.sendNotification({
+              method: "notifications/progress",
+              params: { progressToken, progress, total, message }
+            });
+          }
+    };
+
+    if (!isToolEnabled(config, name) && TOOLS.some(tool => tool.name === name)) {
+      throw new McpError(ErrorCode.MethodNotFound, `Tool ${name} is disabled by the server configuration`);
     }
 
-    // Convert regular errors to appropriate MCP errors
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-    
-    if (errorMessage.includes('required')) {
-      throw new McpError(ErrorCode.InvalidParams, errorMessage);
+    try {
+      switch (name) {
+        case "search_studies":
+          return await bioStudiesHandlers.searchStudies(args, context);
+
+        case "list_facets":
+          return await bioStudiesHandlers.listFacets(args, context);
+
+        case "list_collections":
+          return await bioStudiesHandlers.listCollections(args, context);
+
+        case "get_collection_studies":
+          return await bioStudiesHandlers.getCollectionStudies(args, context);
+
+        case "get_study_details":
+          return await bioStudiesHandlers.getStudyDetails(args, context);
+
+        case "get_study_files":
+          return await bioStudiesHandlers.getStudyFiles(args, context);
+
+        case "get_study_links":
+          return await bioStudiesHandlers.getStudyLinks(args, context);
+
+        case "validate_study_accession":
+          return await bioStudiesHandlers.validateStudyAccession(args, context);
+
+        case "batch_get_studies":
+          return await bioStudiesHandlers.batchGetStudies(args, context);
+
+        case "download_study_files":
+          return await bioStudiesHandlers.downloadStudyFiles(args, context);
+
+        case "generate_download_manifest":
+          return await bioStudiesHandlers.generateDownloadManifest(args, context);
+
+        case "verify_study_files":
+          return await bioStudiesHandlers.verifyStudyFiles(args, context);
+
+        case "export_study_metadata":
+          return await bioStudiesHandlers.exportStudyMetadata(args, context);
+
+        case "cite_study":
+          return await bioStudiesHandlers.citeStudy(args, context);
+
+        case "get_experiment_design":
+          return await bioStudiesHandlers.getExperimentDesign(args, context);
+
+        case "query_samples":
+          return await bioStudiesHandlers.querySamples(args, context);
+
+        case "preview_expression_matrix":
+          return await bioStudiesHandlers.previewExpressionMatrix(args, context);
+
+        case "study_keys":
+          return await bioStudiesHandlers.studyKeys(args);
+
+        case "login":
+          return await bioStudiesHandlers.login(args, context);
+
+        case "logout":
+          return await bioStudiesHandlers.logout(args);
+
+        case "auth_status":
+          return await bioStudiesHandlers.authStatus(args);
+
+        default:
+          throw new McpError(
+            ErrorCode.MethodNotFound,
+            `Unknown tool: ${name}. Available tools: ${TOOLS.filter(tool => isToolEnabled(config, tool.name)).map(tool => tool.name).join(', ')}`
+          );
+      }
+    } catch (error) {
+      // Handle both McpError and regular errors
+      if (error instanceof McpError) {
+        throw error;
+      }
+
+      // Invalid arguments are protocol errors; anything else (API, network, file system) is a tool error
+      if (error instanceof ToolArgumentError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+
+      return {
+        content: [{
+          type: "text",
+          text: `Error: ${errorMessage}`
+        }],
+        isError: true
+      };
     }
-    
-    return {
-      content: [{
-        type: "text",
-        text: `Error: ${errorMessage}`
-      }],
-      isError: true
-    };
-  }
-});
+  });
+
+  /**
+   * Handler that lists collections as resources
+   */
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    return await resourceHandlers.listResources({ signal: extra.signal });
+  });
+
+  /**
+   * Handler that lists the study, study files and collection resource templates
+   */
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return resourceHandlers.listResourceTemplates();
+  });
+
+  /**
+   * Handler for reading BioStudies resources
+   */
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    return await resourceHandlers.readResource(request.params.uri, { signal: extra.signal });
+  });
+
+  /**
+   * Handler that lists the study-analysis prompts
+   */
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return promptHandlers.listPrompts();
+  });
+
+  /**
+   * Handler for building prompt messages with embedded study metadata
+   */
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    return await promptHandlers.getPrompt(request.params.name, request.params.arguments, { signal: extra.signal });
+  });
+
+  return server;
+}
 
 /**
- * Start the server using stdio transport
+ * Load and validate the configuration, then start the server over stdio or HTTP
  */
 async function main() {
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error("BioStudies MCP server running on stdio");
-}
+  let config: ServerConfig;
+  try {
+    config = loadConfig(TOOLS.map(tool => tool.name));
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      process.exit(1);
+    }
+    throw error;
+  }
 
-// Handle graceful shutdown
-process.on('SIGINT', async () => {
-  console.error('Shutting down BioStudies MCP server...');
-  await server.close();
-  process.exit(0);
-});
+  // Over HTTP clients are different users, who must not save keys that open studies for everyone else
+  const keyring = new StudyKeyring(config.keyringFile, config.transport === 'http');
+  const apiClient = new BioStudiesApiClient({
+    baseUrl: config.baseUrl,
+    filesUrl: config.filesUrl,
+    timeout: config.timeout,
+    userAgent: config.userAgent,
+    cache: config.cache,
+    scheduler: {
+      concurrency: config.concurrency,
+      requestsPerSecond: config.requestsPerSecond
+    },
+    keyring
+  });
+  const auth = new AuthManager(apiClient, config.auth);
+  const downloader = new FileDownloader(apiClient, { directory: config.downloadDirectory, timeout: config.timeout });
 
-process.on('SIGTERM', async () => {
-  console.error('Shutting down BioStudies MCP server...');
-  await server.close();
-  process.exit(0);
-});
+  let close: () => Promise<void>;
+  if (config.transport === 'http') {
+    const httpServer = new McpHttpServer(() => createServer(config, apiClient, auth, keyring, downloader), config.http);
+    await httpServer.listen();
+    close = () => httpServer.close();
+    console.error(
+      `BioStudies MCP server listening on ${httpServer.url()}` +
+      `${config.http.token ? ' (bearer token required)' : ''} (${describeConfig(config)})`
+    );
+  } else {
+    const server = createServer(config, apiClient, auth, keyring, downloader);
+    await server.connect(new StdioServerTransport());
+    close = () => server.close();
+    console.error(`BioStudies MCP server running on stdio (${describeConfig(config)})`);
+  }
+
+  // Handle graceful shutdown
+  const shutdown = async () => {
+    console.error('Shutting down BioStudies MCP server...');
+    await close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
 
 // Start the server
 main().catch((error) => {
@@ -0,0 +1,745 @@
+/**
+ * JSON Schemas for the structured output of BioStudies tools
+ * Each tool returns an object matching its schema as structuredContent
+ */
+
+/**
+ * Shared `format` input property selecting the text content of a tool result
+ */
+export const FORMAT_PROPERTY = {
+  type: "string",
+  enum: ["markdown", "json"],
+  description: "Text output format: human-readable markdown (default) or the JSON payload. Structured content is always returned."
+};
+
+/**
+ * Shared `refresh` input property bypassing the response cache
+ */
+export const REFRESH_PROPERTY = {
+  type: "boolean",
+  description: "Bypass the response cache and revalidate with the BioStudies API (default: false)"
+};
+
+/**
+ * Shared `key` input property for opening private studies
+ */
+export const KEY_PROPERTY = {
+  type: "string",
+  description: "Secret access key of a private study, as shared by its submitter. Saved to the local keyring, so it only needs to be given once."
+};
+
+const ATTRIBUTE_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    value: { type: "string" },
+    reference: { type: "boolean" },
+    sectionPath: { type: "string" }
+  },
+  required: ["name", "value"]
+};
+
+const FILE_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    path: { type: "string" },
+    size: { type: "number" },
+    type: { type: "string" },
+    md5: { type: "string" },
+    sectionPath: { type: "string" },
+    attributes: { type: "array", items: ATTRIBUTE_SCHEMA }
+  },
+  required: ["name", "path"]
+};
+
+const LINK_SCHEMA = {
+  type: "object",
+  properties: {
+    url: { type: "string" },
+    sectionPath: { type: "string" },
+    attributes: { type: "array", items: ATTRIBUTE_SCHEMA }
+  },
+  required: ["url"]
+};
+
+const ORGANIZATION_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    name: { type: "string" },
+    address: { type: "string" },
+    ror: { type: "string" }
+  },
+  required: ["name"]
+};
+
+const AUTHOR_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    email: { type: "string" },
+    affiliation: { type: "string" },
+    affiliations: { type: "array", items: ORGANIZATION_SCHEMA },
+    orcid: { type: "string" },
+    roles: { type: "array", items: { type: "string" } }
+  },
+  required: ["name"]
+};
+
+const PUBLICATION_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    authors: { type: "string" },
+    journal: { type: "string" },
+    volume: { type: "string" },
+    issue: { type: "string" },
+    pages: { type: "string" },
+    year: { type: "string" },
+    doi: { type: "string" },
+    pmid: { type: "string" }
+  }
+};
+
+const FUNDING_SCHEMA = {
+  type: "object",
+  properties: {
+    agency: { type: "string" },
+    grantId: { type: "string" }
+  },
+  required: ["agency"]
+};
+
+const FACET_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    title: { type: "string" },
+    values: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          value: { type: "string" },
+          count: { type: "number" }
+        },
+        required: ["value", "count"]
+      }
+    }
+  },
+  required: ["name", "values"]
+};
+
+const PAGINATION_SCHEMA = {
+  type: "object",
+  properties: {
+    page: { type: "number" },
+    size: { type: "number" },
+    totalResults: { type: "number" },
+    totalPages: { type: "number" },
+    hasNext: { type: "boolean" },
+    hasPrevious: { type: "boolean" }
+  },
+  required: ["page", "size", "totalResults", "totalPages", "hasNext", "hasPrevious"]
+};
+
+const COLLECTION_SCHEMA = {
+  type: "object",
+  properties: {
+    key: { type: "string" },
+    name: { type: "string" },
+    description: { type: "string" },
+    releaseDate: { type: "string" },
+    studyCount: { type: "number" },
+    url: { type: "string" },
+    accessionPattern: { type: "string" },
+    examples: { type: "array", items: { type: "string" } }
+  },
+  required: ["key", "name"]
+};
+
+export const SEARCH_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    collection: { type: "string" },
+    hits: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          title: { type: "string" },
+          authors: { type: "array", items: { type: "string" } },
+          releaseDate: { type: "string" },
+          collection: { type: "string" },
+          type: { type: "string" },
+          views: { type: "number" },
+          fileCount: { type: "number" },
+          linkCount: { type: "number" },
+          isPublic: { type: "boolean" }
+        },
+        required: ["accno", "title"]
+      }
+    },
+    totalHits: { type: "number" },
+    page: { type: "number" },
+    size: { type: "number" },
+    query: { type: "string" },
+    facets: { type: "array", items: FACET_SCHEMA },
+    pagination: PAGINATION_SCHEMA
+  },
+  required: ["hits", "totalHits"]
+};
+
+export const FACET_LIST_SCHEMA = {
+  type: "object",
+  properties: {
+    query: { type: "string" },
+    collection: { type: "string" },
+    appliedFilters: {
+      type: "object",
+      additionalProperties: { type: "array", items: { type: "string" } }
+    },
+    facets: { type: "array", items: FACET_SCHEMA }
+  },
+  required: ["facets"]
+};
+
+export const COLLECTION_LIST_SCHEMA = {
+  type: "object",
+  properties: {
+    source: { type: "string", enum: ["live", "fallback"] },
+    error: { type: "string" },
+    collections: { type: "array", items: COLLECTION_SCHEMA }
+  },
+  required: ["source", "collections"]
+};
+
+export const STUDY_DETAILS_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    releaseDate: { type: "string" },
+    collection: { type: "string" },
+    type: { type: "string" },
+    isPublic: { type: "boolean" },
+    tags: { type: "array", items: { type: "string" } },
+    authors: { type: "array", items: AUTHOR_SCHEMA },
+    contacts: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          email: { type: "string" },
+          affiliation: { type: "string" },
+          role: { type: "string" }
+        },
+        required: ["name"]
+      }
+    },
+    organizations: { type: "array", items: ORGANIZATION_SCHEMA },
+    publications: { type: "array", items: PUBLICATION_SCHEMA },
+    funding: { type: "array", items: FUNDING_SCHEMA },
+    attributes: { type: "array", items: ATTRIBUTE_SCHEMA },
+    files: { type: "array", items: FILE_SCHEMA },
+    links: { type: "array", items: LINK_SCHEMA },
+    accessedWithKey: { type: "boolean" }
+  },
+  required: ["accno", "title"]
+};
+
+export const STUDY_FILES_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    source: { type: "string", enum: ["api", "metadata"] },
+    totalFiles: { type: "number" },
+    totalSize: { type: "number" },
+    files: { type: "array", items: FILE_SCHEMA }
+  },
+  required: ["accno", "source", "totalFiles", "files"]
+};
+
+export const STUDY_LINKS_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    totalLinks: { type: "number" },
+    links: { type: "array", items: LINK_SCHEMA }
+  },
+  required: ["accno", "totalLinks", "links"]
+};
+
+export const STUDY_VALIDATION_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    isValid: { type: "boolean" },
+    exists: { type: "boolean" },
+    isPublic: { type: "boolean" },
+    collection: { type: "string" },
+    title: { type: "string" },
+    accessedWithKey: { type: "boolean" }
+  },
+  required: ["accno", "isValid", "exists"]
+};
+
+const STUDY_SUMMARY_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    title: { type: "string" },
+    description: { type: "string" },
+    releaseDate: { type: "string" },
+    collection: { type: "string" },
+    type: { type: "string" },
+    isPublic: { type: "boolean" },
+    authors: { type: "array", items: AUTHOR_SCHEMA },
+    publications: { type: "array", items: PUBLICATION_SCHEMA },
+    funding: { type: "array", items: FUNDING_SCHEMA },
+    tags: { type: "array", items: { type: "string" } },
+    fileCount: { type: "number" },
+    totalFileSize: { type: "number" },
+    linkCount: { type: "number" }
+  },
+  required: ["accno", "title", "fileCount", "totalFileSize", "linkCount"]
+};
+
+const ERROR_CATEGORY_SCHEMA = {
+  type: "string",
+  enum: [
+    "invalid_accession",
+    "not_found",
+    "access_denied",
+    "rate_limited",
+    "timeout",
+    "network",
+    "server_error",
+    "unavailable",
+    "cancelled",
+    "unknown"
+  ]
+};
+
+export const BULK_OPERATION_SCHEMA = {
+  type: "object",
+  properties: {
+    successful: { type: "array", items: { type: "string" } },
+    failed: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          error: { type: "string" },
+          category: ERROR_CATEGORY_SCHEMA
+        },
+        required: ["accno", "error"]
+      }
+    },
+    total: { type: "number" },
+    successCount: { type: "number" },
+    failureCount: { type: "number" },
+    durationMs: { type: "number" },
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          status: { type: "string", enum: ["success", "failed"] },
+          durationMs: { type: "number" },
+          attempts: { type: "number" },
+          cached: { type: "boolean" },
+          error: { type: "string" },
+          category: ERROR_CATEGORY_SCHEMA
+        },
+        required: ["accno", "status", "durationMs"]
+      }
+    },
+    studies: { type: "array", items: STUDY_SUMMARY_SCHEMA }
+  },
+  required: ["successful", "failed", "total", "successCount", "failureCount"]
+};
+
+export const AUTH_STATUS_SCHEMA = {
+  type: "object",
+  properties: {
+    authenticated: { type: "boolean" },
+    user: { type: "string" },
+    expires: { type: "string" },
+    expiresInSeconds: { type: "number" },
+    tokenSource: { type: "string", enum: ["environment", "credentials_file", "session_file"] },
+    credentialsSource: { type: "string", enum: ["environment", "credentials_file", "session_file"] },
+    autoLogin: { type: "boolean" },
+    lastError: { type: "string" }
+  },
+  required: ["authenticated", "autoLogin"]
+};
+
+export const STUDY_KEYS_SCHEMA = {
+  type: "object",
+  properties: {
+    action: { type: "string", enum: ["list", "remove"] },
+    removed: { type: "boolean" },
+    studies: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          addedAt: { type: "string" }
+        },
+        required: ["accno"]
+      }
+    }
+  },
+  required: ["action", "studies"]
+};
+
+export const DOWNLOAD_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    directory: { type: "string" },
+    total: { type: "number" },
+    downloaded: { type: "number" },
+    resumed: { type: "number" },
+    skipped: { type: "number" },
+    failed: { type: "number" },
+    totalSize: { type: "number" },
+    bytesTransferred: { type: "number" },
+    durationMs: { type: "number" },
+    items: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          sectionPath: { type: "string" },
+          localPath: { type: "string" },
+          status: { type: "string", enum: ["downloaded", "resumed", "skipped", "failed"] },
+          size: { type: "number" },
+          bytesTransferred: { type: "number" },
+          md5: { type: "string" },
+          md5Verified: { type: "boolean" },
+          attempts: { type: "number" },
+          durationMs: { type: "number" },
+          error: { type: "string" },
+          category: {
+            type: "string",
+            enum: [...ERROR_CATEGORY_SCHEMA.enum, "checksum_mismatch", "size_mismatch", "invalid_path", "write_failed"]
+          }
+        },
+        required: ["path", "localPath", "status", "bytesTransferred", "attempts", "durationMs"]
+      }
+    }
+  },
+  required: ["accno", "directory", "total", "downloaded", "skipped", "failed", "items"]
+};
+
+export const DOWNLOAD_MANIFEST_SCHEMA = {
+  type: "object",
+  properties: {
+    manifestFormat: { type: "string", enum: ["wget", "curl", "aria2", "aspera", "urls"] },
+    studies: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          fileCount: { type: "number" },
+          totalSize: { type: "number" },
+          error: { type: "string" }
+        },
+        required: ["accno", "fileCount", "totalSize"]
+      }
+    },
+    fileCount: { type: "number" },
+    totalSize: { type: "number" },
+    manifest: { type: "string" },
+    manifestFilename: { type: "string" },
+    checksums: { type: "string" },
+    checksumsFilename: { type: "string" },
+    checksumCount: { type: "number" },
+    command: { type: "string" },
+    keysOmitted: { type: "array", items: { type: "string" } }
+  },
+  required: ["manifestFormat", "studies", "fileCount", "manifest", "checksums", "checksumCount"]
+};
+
+export const VERIFICATION_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    directory: { type: "string" },
+    complete: { type: "boolean" },
+    expected: { type: "number" },
+    verified: { type: "number" },
+    sizeOnly: { type: "number" },
+    missing: { type: "number" },
+    sizeMismatch: { type: "number" },
+    checksumMismatch: { type: "number" },
+    invalidPaths: { type: "number" },
+    problems: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          sectionPath: { type: "string" },
+          status: { type: "string", enum: ["missing", "size_mismatch", "checksum_mismatch", "invalid_path"] },
+          expectedSize: { type: "number" },
+          localSize: { type: "number" },
+          expectedMd5: { type: "string" },
+          localMd5: { type: "string" }
+        },
+        required: ["path", "status"]
+      }
+    },
+    unexpected: { type: "array", items: { type: "string" } },
+    partial: { type: "array", items: { type: "string" } },
+    metadataStale: { type: "boolean" },
+    metadataCachedAt: { type: "string" },
+    durationMs: { type: "number" }
+  },
+  required: ["accno", "directory", "complete", "expected", "problems", "unexpected", "metadataStale"]
+};
+
+export const METADATA_EXPORT_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    exportFormat: { type: "string", enum: ["schema_org", "ro_crate"] },
+    filename: { type: "string" },
+    document: { type: "object" },
+    savedTo: { type: "string" }
+  },
+  required: ["accno", "exportFormat", "filename", "document"]
+};
+
+export const CITATION_SCHEMA = {
+  type: "object",
+  properties: {
+    citationFormat: { type: "string", enum: ["bibtex", "ris", "csl_json"] },
+    citations: { type: "string" },
+    count: { type: "number" },
+    studies: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          accno: { type: "string" },
+          title: { type: "string" },
+          doi: { type: "string" },
+          private: { type: "boolean" },
+          publicationCount: { type: "number" },
+          error: { type: "string" }
+        },
+        required: ["accno", "publicationCount"]
+      }
+    },
+    statement: { type: "string" }
+  },
+  required: ["citationFormat", "citations", "count", "studies"]
+};
+
+const DESIGN_VARIABLE_SCHEMA = {
+  type: "object",
+  properties: {
+    name: { type: "string" },
+    values: { type: "array", items: { type: "string" } }
+  },
+  required: ["name", "values"]
+};
+
+const VALUE_MAP_SCHEMA = {
+  type: "object",
+  additionalProperties: { type: "string" }
+};
+
+export const EXPERIMENT_DESIGN_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    idfFile: { type: "string" },
+    sdrfFiles: { type: "array", items: { type: "string" } },
+    title: { type: "string" },
+    description: { type: "string" },
+    experimentalDesigns: { type: "array", items: { type: "string" } },
+    protocols: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          type: { type: "string" },
+          description: { type: "string" },
+          parameters: { type: "array", items: { type: "string" } },
+          hardware: { type: "string" },
+          software: { type: "string" }
+        },
+        required: ["name"]
+      }
+    },
+    characteristics: { type: "array", items: DESIGN_VARIABLE_SCHEMA },
+    factors: { type: "array", items: DESIGN_VARIABLE_SCHEMA },
+    sources: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          characteristics: VALUE_MAP_SCHEMA,
+          factorValues: VALUE_MAP_SCHEMA
+        },
+        required: ["name", "characteristics", "factorValues"]
+      }
+    },
+    assays: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          sources: { type: "array", items: { type: "string" } },
+          factorValues: VALUE_MAP_SCHEMA,
+          protocols: { type: "array", items: { type: "string" } },
+          technologyType: { type: "string" },
+          label: { type: "string" },
+          files: {
+            type: "array",
+            items: {
+              type: "object",
+              properties: {
+                column: { type: "string" },
+                name: { type: "string" },
+                kind: { type: "string", enum: ["raw", "processed"] }
+              },
+              required: ["column", "name", "kind"]
+            }
+          }
+        },
+        required: ["name", "sources", "factorValues", "files"]
+      }
+    },
+    sampleCount: { type: "number" },
+    assayCount: { type: "number" },
+    truncated: { type: "boolean" }
+  },
+  required: ["accno", "sdrfFiles", "characteristics", "factors", "sources", "assays", "sampleCount", "assayCount"]
+};
+
+export const SAMPLE_QUERY_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    filters: {
+      type: "object",
+      additionalProperties: { type: "array", items: { type: "string" } }
+    },
+    groupBy: { type: "array", items: { type: "string" } },
+    total: { type: "number" },
+    matched: { type: "number" },
+    samples: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          characteristics: VALUE_MAP_SCHEMA,
+          factorValues: VALUE_MAP_SCHEMA,
+          assays: { type: "array", items: { type: "string" } },
+          rawFiles: { type: "array", items: { type: "string" } },
+          processedFiles: { type: "array", items: { type: "string" } }
+        },
+        required: ["name", "characteristics", "factorValues", "assays", "rawFiles", "processedFiles"]
+      }
+    },
+    groups: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          values: VALUE_MAP_SCHEMA,
+          sampleCount: { type: "number" },
+          assayCount: { type: "number" },
+          samples: { type: "array", items: { type: "string" } }
+        },
+        required: ["values", "sampleCount", "assayCount", "samples"]
+      }
+    },
+    rawFiles: { type: "array", items: { type: "string" } },
+    processedFiles: { type: "array", items: { type: "string" } },
+    truncated: { type: "boolean" }
+  },
+  required: ["accno", "filters", "groupBy", "total", "matched", "samples", "rawFiles", "processedFiles"]
+};
+
+export const MATRIX_PREVIEW_SCHEMA = {
+  type: "object",
+  properties: {
+    accno: { type: "string" },
+    path: { type: "string" },
+    size: { type: "number" },
+    compressed: { type: "boolean" },
+    delimiter: { type: "string" },
+    rowCount: { type: "number" },
+    estimatedRows: { type: "number" },
+    columnCount: { type: "number" },
+    columns: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          index: { type: "number" },
+          header: { type: "string" },
+          quantitationType: { type: "string" },
+          role: { type: "string", enum: ["label", "value"] },
+          assay: { type: "string" },
+          source: { type: "string" },
+          stats: {
+            type: "object",
+            properties: {
+              values: { type: "number" },
+              numeric: { type: "number" },
+              missing: { type: "number" },
+              min: { type: "number" },
+              max: { type: "number" },
+              mean: { type: "number" },
+              integerOnly: { type: "boolean" },
+              zeros: { type: "number" }
+            },
+            required: ["values", "numeric", "missing", "integerOnly", "zeros"]
+          }
+        },
+        required: ["index", "header", "role", "stats"]
+      }
+    },
+    columnsTruncated: { type: "boolean" },
+    matchedColumns: { type: "number" },
+    preview: { type: "array", items: { type: "array", items: { type: "string" } } },
+    valueScale: { type: "string", enum: ["integer_counts", "linear", "log", "non_numeric", "unknown"] },
+    bytesScanned: { type: "number" },
+    complete: { type: "boolean" },
+    candidates: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          path: { type: "string" },
+          name: { type: "string" },
+          size: { type: "number" },
+          source: { type: "string", enum: ["sdrf", "file_name"] },
+          previewable: { type: "boolean" }
+        },
+        required: ["path", "name", "source", "previewable"]
+      }
+    }
+  },
+  required: ["accno", "path", "rowCount", "columnCount", "columns", "preview", "valueScale", "complete", "candidates"]
+};
@@ -16,6 +16,9 @@ export interface StudySearchResult {
   type?: string;
   views?: number;
   downloads?: number;
+  fileCount?: number;
+  linkCount?: number;
+  isPublic?: boolean;
 }
 
 /**
@@ -27,6 +30,9 @@ export interface StudyDetails {
   description?: string;
   authors?: Author[];
   contacts?: Contact[];
+  organizations?: Organization[];
+  publications?: Publication[];
+  funding?: Funding[];
   releaseDate?: string;
   modifyDate?: string;
   collection?: string;
@@ -48,7 +54,9 @@ export interface Author {
   name: string;
   email?: string;
   affiliation?: string;
+  affiliations?: Organization[];
   orcid?: string;
+  roles?: string[];
 }
 
 /**
@@ -61,6 +69,39 @@ export interface Contact {
   role?: string;
 }
 
+/**
+ * Organisation that authors are affiliated with
+ */
+export interface Organization {
+  accno?: string;
+  name: string;
+  address?: string;
+  ror?: string;
+}
+
+/**
+ * Publication associated with a study
+ */
+export interface Publication {
+  title?: string;
+  authors?: string;
+  journal?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  year?: string;
+  doi?: string;
+  pmid?: string;
+}
+
+/**
+ * Funding source of a study
+ */
+export interface Funding {
+  agency: string;
+  grantId?: string;
+}
+
 /**
  * Study attributes (key-value pairs)
  */
@@ -69,6 +110,17 @@ export interface Attribute {
   value: string;
   reference?: boolean;
   nmqual?: NameValueQualifier[];
+  valqual?: NameValueQualifier[];
+}
+
+/**
+ * Study submission in PageTab JSON format, as returned by /studies/{accno}
+ */
+export interface PageTabSubmission {
+  accno: string;
+  type?: string;
+  attributes?: Attribute[];
+  section?: Section;
 }
 
 /**
@@ -81,13 +133,59 @@ export interface NameValueQualifier {
 
 /**
  * Study section containing organized data
+ * PageTab nests subsections arbitrarily deep; nested arrays represent tables
  */
 export interface Section {
+  accno?: string;
   type?: string;
   attributes?: Attribute[];
-  links?: Link[];
-  files?: FileInfo[];
-  subsections?: Section[];
+  links?: Array<Link | Link[]>;
+  files?: Array<FileInfo | FileInfo[]>;
+  subsections?: Array<Section | Section[]>;
+}
+
+/**
+ * File found while walking a section tree, with the path of the section that holds it
+ */
+export interface SectionFile extends FileInfo {
+  sectionPath: string;
+}
+
+/**
+ * Link found while walking a section tree, with the path of the section that holds it
+ */
+export interface SectionLink extends Link {
+  sectionPath: string;
+}
+
+/**
+ * Attribute found while walking a section tree, with the path of the section that holds it
+ */
+export interface SectionAttribute extends Attribute {
+  sectionPath: string;
+}
+
+/**
+ * Summary of a section visited while walking a section tree
+ */
+export interface SectionSummary {
+  path: string;
+  depth: number;
+  type?: string;
+  accno?: string;
+  attributeCount: number;
+  fileCount: number;
+  linkCount: number;
+}
+
+/**
+ * Everything collected from a section tree
+ */
+export interface SectionContents {
+  sections: SectionSummary[];
+  files: SectionFile[];
+  links: SectionLink[];
+  attributes: SectionAttribute[];
 }
 
 /**
@@ -110,6 +208,18 @@ export interface FileInfo {
   md5?: string;
 }
 
+/**
+ * Storage information of a study from the /info endpoint
+ */
+export interface StudyInfo {
+  httpLink?: string;
+  ftpLink?: string;
+  relPath?: string;
+  isPublic?: boolean;
+  released?: number;
+  modified?: number;
+}
+
 /**
  * Collection information
  */
@@ -123,8 +233,26 @@ export interface Collection {
   url?: string;
 }
 
+/**
+ * Static description of a well-known collection, used when the live API is unreachable
+ */
+export interface KnownCollection extends Collection {
+  accessionPattern: string;
+  examples: string[];
+}
+
+/**
+ * Collections from the live API, or the known collections when it cannot be reached
+ */
+export interface CollectionList {
+  source: 'live' | 'fallback';
+  error?: string;
+  collections: Collection[];
+}
+
 /**
  * Search parameters for BioStudies queries
+ * Pages are 1-based, matching the BioStudies search API
  */
 export interface SearchParams {
   query?: string;
@@ -132,6 +260,7 @@ export interface SearchParams {
   type?: string;
   author?: string;
   keywords?: string[];
+  facets?: Record<string, string[]>;
   page?: number;
   size?: number;
   sortBy?: string;
@@ -152,6 +281,53 @@ export interface SearchResponse {
   sortOrder?: string;
   query?: string;
   facets?: Facet[];
+  pagination?: PaginationInfo;
+}
+
+/**
+ * Single hit as returned by the BioStudies /search endpoint
+ */
+export interface RawSearchHit {
+  accession: string;
+  type?: string | null;
+  title?: string | null;
+  author?: string | null;
+  links?: number | null;
+  files?: number | null;
+  release_date?: string | null;
+  views?: number | null;
+  isPublic?: boolean | null;
+  content?: string | null;
+}
+
+/**
+ * Search response as returned by the BioStudies /search endpoint
+ * Optional fields may be null (e.g. query for searches without one); the normalizers map null to undefined
+ */
+export interface RawSearchResponse {
+  page: number;
+  pageSize: number;
+  totalHits: number;
+  isTotalHitsExact?: boolean | null;
+  sortBy?: string | null;
+  sortOrder?: string | null;
+  query?: string | null;
+  hits: RawSearchHit[];
+  facets?: RawFacet[] | null;
+}
+
+/**
+ * Facet as returned by the BioStudies search and facets endpoints
+ */
+export interface RawFacet {
+  name: string;
+  title?: string | null;
+  type?: string | null;
+  children?: Array<{
+    name?: string | null;
+    value: string;
+    hits: number;
+  }> | null;
 }
 
 /**
@@ -159,6 +335,7 @@ export interface SearchResponse {
  */
 export interface Facet {
   name: string;
+  title?: string;
   values: FacetValue[];
 }
 
@@ -187,6 +364,25 @@ export interface AuthCredentials {
   password: string;
 }
 
+/**
+ * Where the current authentication token or credentials came from
+ */
+export type AuthSource = 'environment' | 'credentials_file' | 'session_file';
+
+/**
+ * Authentication state reported by the auth tools; never includes secrets
+ */
+export interface AuthStatus {
+  authenticated: boolean;
+  user?: string;
+  expires?: string;
+  expiresInSeconds?: number;
+  tokenSource?: AuthSource;
+  credentialsSource?: AuthSource;
+  autoLogin: boolean;
+  lastError?: string;
+}
+
 /**
  * File search parameters
  */
@@ -219,6 +415,7 @@ export interface StudyValidation {
   isPublic?: boolean;
   collection?: string;
   title?: string;
+  accessedWithKey?: boolean;
 }
 
 /**
@@ -229,6 +426,21 @@ export interface ApiResponse<T> {
   error?: string;
   status: number;
   message?: string;
+  cached?: boolean;
+  attempts?: number;
+  keySource?: 'argument' | 'keyring';
+  stale?: boolean;
+  cachedAt?: string;
+}
+
+/**
+ * Per-call options for API client requests
+ */
+export interface RequestOptions {
+  refresh?: boolean;
+  signal?: AbortSignal;
+  key?: string;
+  allowStale?: boolean;
 }
 
 /**
@@ -265,6 +477,54 @@ export interface Statistics {
   types?: { [key: string]: number };
 }
 
+/**
+ * Category of a failed API request, used to tell transient from permanent failures
+ */
+export type ErrorCategory =
+  | 'invalid_accession'
+  | 'not_found'
+  | 'access_denied'
+  | 'rate_limited'
+  | 'timeout'
+  | 'network'
+  | 'server_error'
+  | 'unavailable'
+  | 'cancelled'
+  | 'unknown';
+
+/**
+ * Outcome of a single item in a bulk operation
+ */
+export interface BulkOperationItem {
+  accno: string;
+  status: 'success' | 'failed';
+  durationMs: number;
+  attempts?: number;
+  cached?: boolean;
+  error?: string;
+  category?: ErrorCategory;
+}
+
+/**
+ * Compact normalized view of a study, used in batch results
+ */
+export interface StudySummary {
+  accno: string;
+  title: string;
+  description?: string;
+  releaseDate?: string;
+  collection?: string;
+  type?: string;
+  isPublic?: boolean;
+  authors: Author[];
+  publications: Publication[];
+  funding: Funding[];
+  tags: string[];
+  fileCount: number;
+  totalFileSize: number;
+  linkCount: number;
+}
+
 /**
  * Bulk operation result
  */
@@ -273,8 +533,328 @@ export interface BulkOperationResult {
   failed: Array<{
     accno: string;
     error: string;
+    category?: ErrorCategory;
   }>;
   total: number;
   successCount: number;
   failureCount: number;
+  durationMs?: number;
+  items?: BulkOperationItem[];
+  studies?: StudySummary[];
+}
+
+/**
+ * Category of a failed file download: an API failure, or a problem with the transferred file
+ */
+export type DownloadErrorCategory =
+  | ErrorCategory
+  | 'checksum_mismatch'
+  | 'size_mismatch'
+  | 'invalid_path'
+  | 'write_failed';
+
+/**
+ * Outcome of downloading a single study file
+ * "resumed" transfers continued a partial file left by an earlier attempt; "skipped" files were already complete
+ */
+export interface DownloadItem {
+  path: string;
+  sectionPath?: string;
+  localPath: string;
+  status: 'downloaded' | 'resumed' | 'skipped' | 'failed';
+  size?: number;
+  bytesTransferred: number;
+  md5?: string;
+  md5Verified?: boolean;
+  attempts: number;
+  durationMs: number;
+  error?: string;
+  category?: DownloadErrorCategory;
+}
+
+/**
+ * Result of downloading files of a study
+ */
+export interface DownloadResult {
+  accno: string;
+  directory: string;
+  total: number;
+  downloaded: number;
+  resumed: number;
+  skipped: number;
+  failed: number;
+  totalSize: number;
+  bytesTransferred: number;
+  durationMs: number;
+  items: DownloadItem[];
+}
+
+/**
+ * File whose local copy does not match the study's file metadata
+ */
+export interface VerificationProblem {
+  path: string;
+  sectionPath?: string;
+  status: 'missing' | 'size_mismatch' | 'checksum_mismatch' | 'invalid_path';
+  expectedSize?: number;
+  localSize?: number;
+  expectedMd5?: string;
+  localMd5?: string;
+}
+
+/**
+ * Result of comparing a local copy of a study with its file metadata
+ * A copy is complete when every listed file is present with the expected size and checksum;
+ * unexpected files do not make it incomplete
+ */
+export interface VerificationResult {
+  accno: string;
+  directory: string;
+  complete: boolean;
+  expected: number;
+  verified: number;
+  sizeOnly: number;
+  missing: number;
+  sizeMismatch: number;
+  checksumMismatch: number;
+  invalidPaths: number;
+  problems: VerificationProblem[];
+  unexpected: string[];
+  partial: string[];
+  metadataStale: boolean;
+  metadataCachedAt?: string;
+  durationMs: number;
+}
+
+/**
+ * Protocol described in a MAGE-TAB IDF
+ */
+export interface MageTabProtocol {
+  name: string;
+  type?: string;
+  description?: string;
+  parameters?: string[];
+  hardware?: string;
+  software?: string;
+}
+
+/**
+ * Contact listed in a MAGE-TAB IDF
+ */
+export interface MageTabPerson {
+  name: string;
+  email?: string;
+  affiliation?: string;
+  roles?: string[];
+}
+
+/**
+ * Publication listed in a MAGE-TAB IDF
+ */
+export interface MageTabPublication {
+  title?: string;
+  authors?: string;
+  doi?: string;
+  pubmedId?: string;
+  status?: string;
+}
+
+/**
+ * Investigation Description Format (IDF) of a MAGE-TAB submission
+ * Fields not mapped to a property are kept in fields, keyed by their tag
+ */
+export interface MageTabIdf {
+  title?: string;
+  description?: string;
+  experimentalDesigns: string[];
+  experimentalFactors: Array<{ name: string; type?: string }>;
+  protocols: MageTabProtocol[];
+  persons: MageTabPerson[];
+  publications: MageTabPublication[];
+  publicReleaseDate?: string;
+  sdrfFiles: string[];
+  comments: Record<string, string>;
+  fields: Record<string, string[]>;
+}
+
+/**
+ * Sample and Data Relationship Format (SDRF) table, with column headers as written
+ */
+export interface SdrfTable {
+  file: string;
+  headers: string[];
+  rows: string[][];
+}
+
+/**
+ * Characteristic or experimental factor and the distinct values it takes across the samples
+ */
+export interface DesignVariable {
+  name: string;
+  values: string[];
+}
+
+/**
+ * Biological source (sample) of a MAGE-TAB experiment with its characteristics
+ */
+export interface MageTabSource {
+  name: string;
+  characteristics: Record<string, string>;
+  factorValues: Record<string, string>;
+}
+
+/**
+ * Data file produced by an assay, by SDRF column, e.g. "Array Data File" or "Comment[FASTQ_URI]"
+ * Files from "Derived ..." columns are processed data; all others are raw data
+ */
+export interface AssayDataFile {
+  column: string;
+  name: string;
+  kind: 'raw' | 'processed';
+}
+
+/**
+ * Assay (hybridization or sequencing run) with the sources it measured and the data files it produced
+ */
+export interface MageTabAssay {
+  name: string;
+  sources: string[];
+  factorValues: Record<string, string>;
+  protocols: string[];
+  technologyType?: string;
+  label?: string;
+  files: AssayDataFile[];
+}
+
+/**
+ * Experimental design of a MAGE-TAB submission, derived from its IDF and SDRF tables
+ */
+export interface ExperimentDesign {
+  accno: string;
+  idfFile?: string;
+  sdrfFiles: string[];
+  title?: string;
+  description?: string;
+  experimentalDesigns: string[];
+  protocols: MageTabProtocol[];
+  characteristics: DesignVariable[];
+  factors: DesignVariable[];
+  sources: MageTabSource[];
+  assays: MageTabAssay[];
+  sampleCount: number;
+  assayCount: number;
+}
+
+/**
+ * Filters and grouping applied to the samples of a MAGE-TAB experiment
+ * Filter keys name characteristics or factors; a sample matches when every filter matches one of its values
+ */
+export interface SampleQuery {
+  filters?: Record<string, string[]>;
+  groupBy?: string[];
+}
+
+/**
+ * Sample (source) of a MAGE-TAB experiment joined with its assays and their data files
+ */
+export interface SampleRecord {
+  name: string;
+  characteristics: Record<string, string>;
+  factorValues: Record<string, string>;
+  assays: string[];
+  rawFiles: string[];
+  processedFiles: string[];
+}
+
+/**
+ * Samples sharing the same values of the group-by columns
+ */
+export interface SampleGroup {
+  values: Record<string, string>;
+  sampleCount: number;
+  assayCount: number;
+  samples: string[];
+}
+
+/**
+ * Samples of an experiment matching a query, with their files and, when grouped, the breakdown
+ */
+export interface SampleQueryResult {
+  accno: string;
+  filters: Record<string, string[]>;
+  groupBy: string[];
+  total: number;
+  matched: number;
+  samples: SampleRecord[];
+  groups?: SampleGroup[];
+  rawFiles: string[];
+  processedFiles: string[];
+  truncated: boolean;
+}
+
+/**
+ * Study file that looks like a processed data matrix; zip archives are listed but cannot be previewed
+ */
+export interface MatrixCandidate {
+  path: string;
+  name: string;
+  size?: number;
+  source: 'sdrf' | 'file_name';
+  previewable: boolean;
+}
+
+/**
+ * Statistics of one matrix column over the scanned rows
+ */
+export interface MatrixColumnStats {
+  values: number;
+  numeric: number;
+  missing: number;
+  min?: number;
+  max?: number;
+  mean?: number;
+  integerOnly: boolean;
+  zeros: number;
+}
+
+/**
+ * Column of a data matrix, with the SDRF assay and source it was matched to
+ * role is "label" for row identifier columns (gene IDs, names) and "value" for data columns
+ */
+export interface MatrixColumn {
+  index: number;
+  header: string;
+  quantitationType?: string;
+  role: 'label' | 'value';
+  assay?: string;
+  source?: string;
+  stats: MatrixColumnStats;
+}
+
+/**
+ * Likely scale of the values in a matrix, judged from their range and whether they are whole numbers
+ */
+export type MatrixValueScale = 'integer_counts' | 'linear' | 'log' | 'non_numeric' | 'unknown';
+
+/**
+ * Summary of a processed data matrix from its first bytes
+ * When only part of the file was scanned, rowCount covers the scanned part and estimatedRows the whole file
+ */
+export interface MatrixPreview {
+  accno: string;
+  path: string;
+  size?: number;
+  compressed: boolean;
+  delimiter: string;
+  rowCount: number;
+  estimatedRows?: number;
+  columnCount: number;
+  columns: MatrixColumn[];
+  columnsTruncated: boolean;
+  matchedColumns: number;
+  preview: string[][];
+  valueScale: MatrixValueScale;
+  bytesScanned: number;
+  complete: boolean;
+  candidates: MatrixCandidate[];
 }
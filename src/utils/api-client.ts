@@ -3,11 +3,17 @@
  * Handles authentication, pagination, and all API interactions
  */
 
+import { createHash } from 'node:crypto';
+import { setMaxListeners } from 'node:events';
 import {
   StudyDetails,
+  PageTabSubmission,
   StudySearchResult,
   SearchParams,
   SearchResponse,
+  RawSearchResponse,
+  RawFacet,
+  Facet,
   Collection,
   FileInfo,
   FileSearchParams,
@@ -16,33 +22,373 @@ import {
   AuthCredentials,
   StudyValidation,
   ApiResponse,
+  PaginationInfo,
   Statistics,
-  BulkOperationResult
+  BulkOperationResult,
+  BulkOperationItem,
+  ErrorCategory,
+  StudySummary,
+  StudyInfo,
+  RequestOptions
 } from '../types/biostudies.js';
+import { normalizeStudy, summarizeStudy } from './pagetab-normalizer.js';
+import { ResponseCache, ResponseCacheOptions } from './response-cache.js';
+import {
+  CircuitBreaker,
+  CircuitBreakerOptions,
+  DEFAULT_RETRY_OPTIONS,
+  RetryOptions,
+  backoffDelay,
+  isRetryableStatus,
+  parseRetryAfter
+} from './retry-policy.js';
+import { RequestScheduler, SchedulerOptions } from './request-scheduler.js';
+import { CANCELLED_STATUS, anySignal, isAbortError, sleep } from './cancellation.js';
+import { DEFAULT_BASE_URL, DEFAULT_TIMEOUT, DEFAULT_USER_AGENT } from './config.js';
+import { StudyKeyring } from './study-keyring.js';
+
+/**
+ * Raw fetch result, carrying the validators used for cache revalidation
+ */
+interface FetchResult<T> extends ApiResponse<T> {
+  etag?: string;
+  lastModified?: string;
+  retryAfter?: number;
+}
+
+/**
+ * GET shared by concurrent identical requests; aborted once every caller has cancelled
+ */
+interface SharedRequest {
+  promise: Promise<ApiResponse<unknown>>;
+  controller: AbortController;
+  callers: number;
+}
+
+/**
+ * Session hooks through which the auth manager keeps the client's token valid
+ */
+export interface AuthSession {
+  /** Called before every request; may log in or renew an expiring token */
+  beforeRequest(): Promise<void>;
+  /** Called when a request with the given token was rejected with 401; resolves true if a new token is set */
+  renew(rejectedToken: string): Promise<boolean>;
+}
+
+/**
+ * Open response from the file server; the caller consumes or cancels its body
+ */
+export interface FileResponse {
+  response?: Response;
+  error?: string;
+  status: number;
+}
+
+export interface ApiClientOptions {
+  baseUrl?: string;
+  filesUrl?: string;
+  timeout?: number;
+  userAgent?: string;
+  cache?: ResponseCacheOptions;
+  retry?: Partial<RetryOptions>;
+  circuitBreaker?: Partial<CircuitBreakerOptions>;
+  scheduler?: Partial<SchedulerOptions>;
+  keyring?: StudyKeyring;
+}
+
+/**
+ * Maximum number of accessions accepted by a single batch request
+ */
+export const MAX_BATCH_SIZE = 1000;
+
+/**
+ * Number of batch accessions queued on the scheduler at once
+ */
+const BATCH_CHUNK_SIZE = 50;
+
+/**
+ * Default size limit for study files read into memory as text
+ */
+export const DEFAULT_MAX_TEXT_FILE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Header carrying the session token from /auth/login; BioStudies ignores Authorization: Bearer
+ */
+const SESSION_TOKEN_HEADER = 'X-Session-Token';
 
 export class BioStudiesApiClient {
-  private readonly baseUrl = 'https://www.ebi.ac.uk/biostudies/api/v1';
+  private readonly baseUrl: string;
+  private readonly filesUrl: string;
   private authToken?: string;
-  private readonly defaultTimeout = 30000;
+  private authSession?: AuthSession;
+  private readonly defaultTimeout: number;
+  private readonly userAgent: string;
+  private readonly cache: ResponseCache;
+  private readonly inFlight = new Map<string, SharedRequest>();
+  private readonly retryOptions: RetryOptions;
+  private readonly circuitBreaker: CircuitBreaker;
+  private readonly scheduler: RequestScheduler;
+  private readonly keyring?: StudyKeyring;
+
+  constructor(options: ApiClientOptions = {}) {
+    this.baseUrl = options.baseUrl ?? DEFAULT_BASE_URL;
+    // The file server sits next to the API: .../biostudies/api/v1 serves files from .../biostudies/files
+    this.filesUrl = options.filesUrl ?? `${this.baseUrl.replace(/\/api\/v\d+$/, '')}/files`;
+    this.defaultTimeout = options.timeout ?? DEFAULT_TIMEOUT;
+    this.userAgent = options.userAgent ?? DEFAULT_USER_AGENT;
+    this.cache = new ResponseCache(options.cache);
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+    this.circuitBreaker = new CircuitBreaker(options.circuitBreaker);
+    this.scheduler = new RequestScheduler(options.scheduler);
+    this.keyring = options.keyring;
+  }
 
   /**
    * Make an HTTP request to the BioStudies API
+   * A request rejected because the session expired is retried once after the auth session renews the token
    */
   private async makeRequest<T>(
     endpoint: string,
-    options: RequestInit = {}
+    options: RequestInit = {},
+    requestOptions: RequestOptions = {}
+  ): Promise<ApiResponse<T>> {
+    await this.authSession?.beforeRequest();
+
+    const token = this.authToken;
+    const result = await this.dispatchRequest<T>(endpoint, options, requestOptions);
+    if (result.status === 401 && token && this.authSession && await this.authSession.renew(token)) {
+      return this.dispatchRequest<T>(endpoint, options, requestOptions);
+    }
+    return result;
+  }
+
+  /**
+   * Send a request with the current token
+   * GET requests are served from the response cache and identical concurrent GETs share one fetch
+   * Aborting requestOptions.signal cancels the request as soon as no other caller is waiting for it
+   * With requestOptions.allowStale, an expired cache entry is returned when the API cannot be reached
+   */
+  private async dispatchRequest<T>(
+    endpoint: string,
+    options: RequestInit,
+    requestOptions: RequestOptions
+  ): Promise<ApiResponse<T>> {
+    const { signal } = requestOptions;
+    if (signal?.aborted) {
+      return this.cancelledResponse();
+    }
+
+    const method = (options.method || 'GET').toUpperCase();
+    if (method !== 'GET' || !this.cache.isEnabled()) {
+      const { etag, lastModified, retryAfter, ...result } = await this.fetchResponse<T>(endpoint, options, signal);
+      return result;
+    }
+
+    const key = this.cacheKey(endpoint);
+    let shared = requestOptions.refresh ? undefined : this.inFlight.get(key);
+    if (!shared) {
+      const controller = new AbortController();
+      const request: SharedRequest = {
+        promise: this.cachedRequest<T>(endpoint, key, options, { ...requestOptions, signal: controller.signal }),
+        controller,
+        callers: 0
+      };
+      const release = () => {
+        if (this.inFlight.get(key) === request) {
+          this.inFlight.delete(key);
+        }
+      };
+      request.promise.then(release, release);
+      this.inFlight.set(key, request);
+      shared = request;
+    }
+
+    const result = await this.joinRequest(shared, signal) as ApiResponse<T>;
+    if (result.error && requestOptions.allowStale && isRetryableStatus(result.status)) {
+      const cached = await this.cache.get(key);
+      if (cached) {
+        return {
+          data: cached.data as T,
+          status: cached.status,
+          cached: true,
+          stale: true,
+          cachedAt: new Date(cached.storedAt).toISOString()
+        };
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Wait for a shared request, settling early with a cancellation result if the caller aborts
+   */
+  private joinRequest(shared: SharedRequest, signal?: AbortSignal): Promise<ApiResponse<unknown>> {
+    shared.callers++;
+    if (!signal) return shared.promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        shared.callers--;
+        if (shared.callers === 0) shared.controller.abort();
+        resolve(this.cancelledResponse());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Result returned for requests abandoned because the caller cancelled them
+   */
+  private cancelledResponse<T>(): ApiResponse<T> {
+    return { error: 'Request cancelled', status: CANCELLED_STATUS };
+  }
+
+  /**
+   * Serve a GET from the cache while fresh, otherwise fetch with conditional revalidation
+   */
+  private async cachedRequest<T>(
+    endpoint: string,
+    key: string,
+    options: RequestInit,
+    requestOptions: RequestOptions
   ): Promise<ApiResponse<T>> {
+    const cached = await this.cache.get(key);
+    if (cached && !requestOptions.refresh && this.cache.isFresh(cached)) {
+      return { data: cached.data as T, status: cached.status, cached: true };
+    }
+
+    const conditionalHeaders: Record<string, string> = {};
+    if (cached?.etag) conditionalHeaders['If-None-Match'] = cached.etag;
+    if (cached?.lastModified) conditionalHeaders['If-Modified-Since'] = cached.lastModified;
+
+    const { etag, lastModified, retryAfter, ...result } = await this.fetchResponse<T>(endpoint, {
+      ...options,
+      headers: {
+        ...conditionalHeaders,
+        ...options.headers
+      }
+    }, requestOptions.signal);
+    const now = Date.now();
+
+    if (result.status === 304 && cached) {
+      await this.cache.set(key, { ...cached, expiresAt: now + this.cache.ttlFor(endpoint) }, this.isPrivateRequest(endpoint));
+      return { data: cached.data as T, status: cached.status, cached: true, attempts: result.attempts };
+    }
+
+    if (!result.error && result.data !== undefined) {
+      await this.cache.set(key, {
+        url: `${this.baseUrl}${endpoint}`.replace(/([?&]key=)[^&]*/, '$1***'),
+        status: result.status,
+        data: result.data,
+        etag,
+        lastModified,
+        storedAt: now,
+        expiresAt: now + this.cache.ttlFor(endpoint)
+      }, this.isPrivateRequest(endpoint));
+    }
+
+    return result;
+  }
+
+  /**
+   * Whether a request may return private data: it is sent with a session token or a secret access key
+   * Such responses are cached in memory only, so they do not outlive the session or key on disk
+   */
+  private isPrivateRequest(endpoint: string): boolean {
+    return !!this.authToken || /[?&]key=/.test(endpoint);
+  }
+
+  /**
+   * Cache key for an endpoint on the configured API; authenticated responses are keyed by a hash of the token
+   */
+  private cacheKey(endpoint: string): string {
+    const scope = this.authToken
+      ? createHash('sha256').update(this.authToken).digest('hex').slice(0, 16)
+      : 'public';
+    return `${scope} ${this.baseUrl}${endpoint}`;
+  }
+
+  /**
+   * Perform an HTTP request, retrying idempotent requests on transient failures
+   * Backs off exponentially with jitter, honours Retry-After on 429/503 and fails fast while the circuit is open
+   * Aborting the signal stops the request whether it is queued, in flight or backing off
+   */
+  private async fetchResponse<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    signal?: AbortSignal
+  ): Promise<FetchResult<T>> {
+    if (!this.circuitBreaker.canRequest()) {
+      const seconds = Math.ceil(this.circuitBreaker.retryAfter() / 1000);
+      return {
+        error: `BioStudies API is unavailable after repeated failures; retry in ${seconds}s`,
+        status: 503,
+        attempts: 0
+      };
+    }
+
+    const method = (options.method || 'GET').toUpperCase();
+    const maxAttempts = method === 'GET' || method === 'HEAD' ? this.retryOptions.maxAttempts : 1;
+
+    let result: FetchResult<T> = { status: 0 };
+    try {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+        result = await this.scheduler.schedule(() => this.fetchOnce<T>(endpoint, options, signal), signal);
+        result.attempts = attempt;
+
+        if (!result.error || !isRetryableStatus(result.status) || attempt === maxAttempts) break;
+
+        let delay = backoffDelay(attempt, this.retryOptions);
+        if ((result.status === 429 || result.status === 503) && result.retryAfter !== undefined) {
+          // Waiting longer than allowed would stall the tool call; report the error instead
+          if (result.retryAfter > this.retryOptions.maxRetryAfter) break;
+          delay = result.retryAfter;
+        }
+        await sleep(delay, signal);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+      result = { ...this.cancelledResponse<T>(), attempts: result.attempts };
+    }
+
+    if (result.status === CANCELLED_STATUS) {
+      this.circuitBreaker.recordCancellation();
+      return result;
+    }
+
+    if (result.error && isRetryableStatus(result.status)) {
+      this.circuitBreaker.recordFailure();
+    } else {
+      this.circuitBreaker.recordSuccess();
+    }
+
+    if (result.error && result.attempts! > 1) {
+      result.error = `${result.error} (after ${result.attempts} attempts)`;
+    }
+
+    return result;
+  }
+
+  /**
+   * Perform a single HTTP request against the BioStudies API
+   */
+  private async fetchOnce<T>(
+    endpoint: string,
+    options: RequestInit = {},
+    signal?: AbortSignal
+  ): Promise<FetchResult<T>> {
     const url = `${this.baseUrl}${endpoint}`;
     
     const defaultHeaders: Record<string, string> = {
       'Content-Type': 'application/json',
       'Accept': 'application/json',
-      'User-Agent': 'BioStudies-MCP-Server/0.1.0'
+      'User-Agent': this.userAgent
     };
 
     // Add authentication header if token is available
     if (this.authToken) {
-      defaultHeaders['Authorization'] = `Bearer ${this.authToken}`;
+      defaultHeaders[SESSION_TOKEN_HEADER] = this.authToken;
     }
 
     const requestOptions: RequestInit = {
@@ -51,11 +397,17 @@ export class BioStudiesApiClient {
         ...defaultHeaders,
         ...options.headers
       },
-      signal: AbortSignal.timeout(this.defaultTimeout)
+      signal: signal
+        ? anySignal([signal, AbortSignal.timeout(this.defaultTimeout)])
+        : AbortSignal.timeout(this.defaultTimeout)
     };
 
     try {
       const response = await fetch(url, requestOptions);
+
+      if (response.status === 304) {
+        return { status: 304 };
+      }
       
       // Handle different response types
       let data: T | undefined;
@@ -77,18 +429,24 @@ export class BioStudiesApiClient {
         
         return {
           error: errorMessage,
-          status: response.status
+          status: response.status,
+          retryAfter: parseRetryAfter(response.headers.get('Retry-After'))
         };
       }
 
       return {
         data,
-        status: response.status
+        status: response.status,
+        etag: response.headers.get('ETag') || undefined,
+        lastModified: response.headers.get('Last-Modified') || undefined
       };
 
     } catch (error) {
       if (error instanceof Error) {
-        if (error.name === 'AbortError') {
+        if (signal?.aborted) {
+          return this.cancelledResponse();
+        }
+        if (error.name === 'AbortError' || error.name === 'TimeoutError') {
           return { error: 'Request timeout', status: 408 };
         }
         return { error: error.message, status: 0 };
@@ -99,12 +457,13 @@ export class BioStudiesApiClient {
 
   /**
    * Authenticate with the BioStudies API
+   * Bypasses the auth session hooks, which call this method to log in again
    */
-  async authenticate(credentials: AuthCredentials): Promise<ApiResponse<AuthToken>> {
-    const result = await this.makeRequest<AuthToken>('/auth/login', {
+  async authenticate(credentials: AuthCredentials, options: RequestOptions = {}): Promise<ApiResponse<AuthToken>> {
+    const { etag, lastModified, retryAfter, ...result } = await this.fetchResponse<AuthToken>('/auth/login', {
       method: 'POST',
       body: JSON.stringify(credentials)
-    });
+    }, options.signal);
 
     if (result.data?.token) {
       this.authToken = result.data.token;
@@ -113,6 +472,13 @@ export class BioStudiesApiClient {
     return result;
   }
 
+  /**
+   * Install the hooks that keep the authentication token valid
+   */
+  setAuthSession(session: AuthSession): void {
+    this.authSession = session;
+  }
+
   /**
    * Clear authentication token
    */
@@ -122,32 +488,72 @@ export class BioStudiesApiClient {
 
   /**
    * Search for studies with various filters
+   * Collection-scoped searches use the /{collection}/search endpoint
    */
-  async searchStudies(params: SearchParams): Promise<ApiResponse<SearchResponse>> {
+  async searchStudies(params: SearchParams, options: RequestOptions = {}): Promise<ApiResponse<SearchResponse>> {
     const searchParams = new URLSearchParams();
 
-    if (params.query) searchParams.append('query', params.query);
-    if (params.collection) searchParams.append('collection', params.collection);
+    const queryParts: string[] = [];
+    if (params.query) queryParts.push(params.query);
+    if (params.keywords?.length) queryParts.push(...params.keywords);
+    if (params.releaseDateFrom || params.releaseDateTo) {
+      queryParts.push(`release_date:[${params.releaseDateFrom || '*'} TO ${params.releaseDateTo || '*'}]`);
+    }
+
+    if (queryParts.length) searchParams.append('query', queryParts.join(' AND '));
     if (params.type) searchParams.append('type', params.type);
     if (params.author) searchParams.append('author', params.author);
-    if (params.keywords?.length) {
-      params.keywords.forEach(keyword => searchParams.append('keywords', keyword));
-    }
+    if (params.facets) this.appendFacetFilters(searchParams, params.facets);
     if (params.page !== undefined) searchParams.append('page', params.page.toString());
-    if (params.size !== undefined) searchParams.append('size', params.size.toString());
+    if (params.size !== undefined) searchParams.append('pageSize', params.size.toString());
     if (params.sortBy) searchParams.append('sortBy', params.sortBy);
-    if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder);
-    if (params.releaseDateFrom) searchParams.append('releaseDateFrom', params.releaseDateFrom);
-    if (params.releaseDateTo) searchParams.append('releaseDateTo', params.releaseDateTo);
+    if (params.sortOrder) searchParams.append('sortOrder', params.sortOrder === 'asc' ? 'ascending' : 'descending');
+
+    const prefix = this.collectionPrefix(params.collection);
+    const result = await this.makeRequest<RawSearchResponse>(`${prefix}/search?${searchParams.toString()}`, {}, options);
 
-    const endpoint = `/studies?${searchParams.toString()}`;
-    return this.makeRequest<SearchResponse>(endpoint);
+    if (result.error || !result.data) {
+      return { error: result.error || 'Empty search response', status: result.status, attempts: result.attempts };
+    }
+
+    return {
+      data: this.normalizeSearchResponse(result.data),
+      status: result.status,
+      cached: result.cached,
+      attempts: result.attempts
+    };
   }
 
   /**
-   * Get detailed information about a specific study
+   * Get the facets available for a query and/or collection, with value counts
+   * Facet filters already applied narrow the counts of the remaining facets
    */
-  async getStudyDetails(accno: string): Promise<ApiResponse<StudyDetails>> {
+  async getFacets(params: SearchParams, options: RequestOptions = {}): Promise<ApiResponse<Facet[]>> {
+    const searchParams = new URLSearchParams();
+
+    if (params.query) searchParams.append('query', params.query);
+    if (params.facets) this.appendFacetFilters(searchParams, params.facets);
+
+    const prefix = this.collectionPrefix(params.collection);
+    const query = searchParams.toString();
+    const result = await this.makeRequest<RawFacet[]>(`${prefix}/facets${query ? `?${query}` : ''}`, {}, options);
+
+    if (result.error || !Array.isArray(result.data)) {
+      return { error: result.error || 'Unexpected facets response', status: result.status, attempts: result.attempts };
+    }
+
+    return {
+      data: result.data.map(facet => this.normalizeFacet(facet)),
+      status: result.status,
+      cached: result.cached,
+      attempts: result.attempts
+    };
+  }
+
+  /**
+   * Get detailed information about a specific study, normalized from PageTab
+   */
+  async getStudyDetails(accno: string, options: RequestOptions = {}): Promise<ApiResponse<StudyDetails>> {
     if (!this.isValidAccessionNumber(accno)) {
       return {
         error: `Invalid accession number format: ${accno}`,
@@ -155,14 +561,69 @@ export class BioStudiesApiClient {
       };
     }
 
-    return this.makeRequest<StudyDetails>(`/studies/${accno}`);
+    const result = await this.studyRequest<PageTabSubmission>(accno, '', options);
+
+    if (result.error || !result.data) {
+      return { error: result.error, status: result.status, attempts: result.attempts };
+    }
+
+    return {
+      data: normalizeStudy(result.data),
+      status: result.status,
+      cached: result.cached,
+      attempts: result.attempts,
+      keySource: result.keySource,
+      stale: result.stale,
+      cachedAt: result.cachedAt
+    };
   }
 
   /**
    * Get all available collections
+   * Collections are indexed as entries of type "collection"; study counts come from the collection facet
    */
-  async getCollections(): Promise<ApiResponse<Collection[]>> {
-    return this.makeRequest<Collection[]>('/collections');
+  async getCollections(options: RequestOptions = {}): Promise<ApiResponse<Collection[]>> {
+    const [entries, facets] = await Promise.all([
+      this.makeRequest<RawSearchResponse>('/search?type=collection&pageSize=100', {}, options),
+      this.getFacets({}, options)
+    ]);
+
+    if (entries.error && facets.error) {
+      return { error: entries.error, status: entries.status };
+    }
+
+    const collections = new Map<string, Collection>();
+
+    (entries.data?.hits || []).forEach(hit => {
+      const key = hit.accession.toLowerCase();
+      collections.set(key, {
+        key,
+        name: hit.title || hit.accession,
+        releaseDate: hit.release_date ?? undefined,
+        url: `https://www.ebi.ac.uk/biostudies/${key}/studies`
+      });
+    });
+
+    const collectionFacet = facets.data?.find(facet => facet.name === 'collection');
+    collectionFacet?.values.forEach(value => {
+      const key = value.value.toLowerCase();
+      const existing = collections.get(key);
+      if (existing) {
+        existing.studyCount = value.count;
+      } else {
+        collections.set(key, {
+          key,
+          name: value.value,
+          studyCount: value.count,
+          url: `https://www.ebi.ac.uk/biostudies/${key}/studies`
+        });
+      }
+    });
+
+    return {
+      data: Array.from(collections.values()).sort((a, b) => (b.studyCount || 0) - (a.studyCount || 0)),
+      status: 200
+    };
   }
 
   /**
@@ -170,20 +631,21 @@ export class BioStudiesApiClient {
    */
   async getCollectionStudies(
     collectionKey: string,
-    page: number = 0,
-    size: number = 20
+    page: number = 1,
+    size: number = 20,
+    options: RequestOptions = {}
   ): Promise<ApiResponse<SearchResponse>> {
     return this.searchStudies({
       collection: collectionKey,
       page,
       size
-    });
+    }, options);
   }
 
   /**
    * Search for files within studies
    */
-  async searchFiles(params: FileSearchParams): Promise<ApiResponse<FileSearchResponse>> {
+  async searchFiles(params: FileSearchParams, options: RequestOptions = {}): Promise<ApiResponse<FileSearchResponse>> {
     const searchParams = new URLSearchParams();
 
     if (params.accno) searchParams.append('accno', params.accno);
@@ -194,13 +656,68 @@ export class BioStudiesApiClient {
     if (params.maxSize !== undefined) searchParams.append('maxSize', params.maxSize.toString());
 
     const endpoint = `/files?${searchParams.toString()}`;
-    return this.makeRequest<FileSearchResponse>(endpoint);
+    return this.makeRequest<FileSearchResponse>(endpoint, {}, options);
+  }
+
+  /**
+   * Request a study endpoint, adding the secret access key given in options or stored in the keyring
+   * A key given in options that opens a private study is saved to the keyring; keys for public studies are not kept
+   */
+  private async studyRequest<T>(accno: string, path: string, options: RequestOptions): Promise<ApiResponse<T>> {
+    if (options.key !== undefined && !StudyKeyring.isValidKey(options.key)) {
+      return { error: 'Invalid secret access key format', status: 400 };
+    }
+
+    const storedKey = options.key === undefined ? await this.keyring?.get(accno) : undefined;
+    const key = options.key ?? storedKey;
+    const query = key ? `?key=${encodeURIComponent(key)}` : '';
+
+    const result = await this.makeRequest<T>(`/studies/${accno}${path}${query}`, {}, options);
+    if (!key) return result;
+
+    if (!result.error && options.key && this.keyring && !this.keyring.readOnly && await this.keyring.get(accno) !== options.key) {
+      if (await this.isPrivateStudy(accno, options)) await this.keyring.set(accno, options.key);
+    }
+    return { ...result, keySource: options.key ? 'argument' : 'keyring' };
+  }
+
+  /**
+   * Whether a study needs a key: its keyless /info request is refused, or reports it as not public
+   * Other failures (network errors, 5xx) count as public, so an unverified key is not saved
+   */
+  private async isPrivateStudy(accno: string, options: RequestOptions): Promise<boolean> {
+    const { key: _key, ...keyless } = options;
+    const info = await this.makeRequest<StudyInfo>(`/studies/${accno}/info`, {}, keyless);
+    if (info.error) return [401, 403, 404].includes(info.status);
+    return info.data?.isPublic === false;
   }
 
   /**
    * Get files associated with a specific study
    */
-  async getStudyFiles(accno: string): Promise<ApiResponse<FileInfo[]>> {
+  async getStudyFiles(accno: string, options: RequestOptions = {}): Promise<ApiResponse<FileInfo[]>> {
+    if (!this.isValidAccessionNumber(accno)) {
+      return {
+        error: `Invalid accession number format: ${accno}`,
+        status: 400
+      };
+    }
+
+    return this.studyRequest<FileInfo[]>(accno, '/files', options);
+  }
+
+  /**
+   * URL of a study file on the file server, with the secret access key if given
+   */
+  studyFileUrl(accno: string, path: string, key?: string): string {
+    const url = `${this.filesUrl}/${encodeURIComponent(accno)}/${path.split('/').map(encodeURIComponent).join('/')}`;
+    return key ? `${url}?key=${encodeURIComponent(key)}` : url;
+  }
+
+  /**
+   * Get the storage information of a study, including its FTP location
+   */
+  async getStudyInfo(accno: string, options: RequestOptions = {}): Promise<ApiResponse<StudyInfo>> {
     if (!this.isValidAccessionNumber(accno)) {
       return {
         error: `Invalid accession number format: ${accno}`,
@@ -208,13 +725,116 @@ export class BioStudiesApiClient {
       };
     }
 
-    return this.makeRequest<FileInfo[]>(`/studies/${accno}/files`);
+    return this.studyRequest<StudyInfo>(accno, '/info', options);
+  }
+
+  /**
+   * Open a study file on the file server for streaming, from a byte offset when resuming
+   * Sends the session token and secret access key like study requests; not cached, retried or rate limited,
+   * since transfers can run for minutes and are paced by the caller
+   */
+  async openStudyFile(accno: string, path: string, options: RequestOptions & { start?: number } = {}): Promise<FileResponse> {
+    if (!this.isValidAccessionNumber(accno)) {
+      return { error: `Invalid accession number format: ${accno}`, status: 400 };
+    }
+    if (options.key !== undefined && !StudyKeyring.isValidKey(options.key)) {
+      return { error: 'Invalid secret access key format', status: 400 };
+    }
+
+    await this.authSession?.beforeRequest();
+    const url = this.studyFileUrl(accno, path, options.key ?? await this.keyring?.get(accno));
+
+    const open = async (): Promise<FileResponse> => {
+      const headers: Record<string, string> = { 'User-Agent': this.userAgent };
+      if (this.authToken) headers[SESSION_TOKEN_HEADER] = this.authToken;
+      if (options.start) headers['Range'] = `bytes=${options.start}-`;
+
+      try {
+        const response = await fetch(url, { headers, signal: options.signal });
+        if (!response.ok) {
+          await response.body?.cancel();
+          return { error: `HTTP ${response.status}: ${response.statusText}`, status: response.status };
+        }
+        return { response, status: response.status };
+      } catch (error) {
+        if (options.signal?.aborted) return this.cancelledResponse();
+        return { error: error instanceof Error ? error.message : 'Unknown error occurred', status: 0 };
+      }
+    };
+
+    const token = this.authToken;
+    const result = await open();
+    if (result.status === 401 && token && this.authSession && await this.authSession.renew(token)) {
+      return open();
+    }
+    return result;
+  }
+
+  /**
+   * Read a small text file of a study, such as a MAGE-TAB IDF or SDRF, through the response cache
+   * Files larger than maxBytes are rejected rather than truncated
+   */
+  async getStudyTextFile(
+    accno: string,
+    path: string,
+    options: RequestOptions & { maxBytes?: number } = {}
+  ): Promise<ApiResponse<string>> {
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_TEXT_FILE_BYTES;
+    const key = options.key ?? await this.keyring?.get(accno);
+    const endpoint = `/studies/${accno}/files/${path}${key ? `?key=${encodeURIComponent(key)}` : ''}`;
+    const cacheKey = this.cacheKey(endpoint);
+
+    const cached = await this.cache.get(cacheKey);
+    if (cached && !options.refresh && this.cache.isFresh(cached)) {
+      return { data: cached.data as string, status: cached.status, cached: true };
+    }
+
+    const signal = options.signal
+      ? anySignal([options.signal, AbortSignal.timeout(this.defaultTimeout)])
+      : AbortSignal.timeout(this.defaultTimeout);
+    const file = await this.openStudyFile(accno, path, { ...options, signal });
+    if (!file.response) {
+      return { error: file.error, status: file.status };
+    }
+
+    const declaredSize = Number(file.response.headers.get('Content-Length'));
+    if (declaredSize > maxBytes) {
+      await file.response.body?.cancel();
+      return { error: `File is larger than ${maxBytes} bytes`, status: 413 };
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    try {
+      for await (const chunk of file.response.body as unknown as AsyncIterable<Uint8Array>) {
+        size += chunk.length;
+        if (size > maxBytes) {
+          await file.response.body?.cancel().catch(() => undefined);
+          return { error: `File is larger than ${maxBytes} bytes`, status: 413 };
+        }
+        chunks.push(chunk);
+      }
+    } catch (error) {
+      if (options.signal?.aborted) return this.cancelledResponse();
+      return { error: signal.aborted ? 'Request timeout' : (error as Error).message, status: signal.aborted ? 408 : 0 };
+    }
+
+    const text = new TextDecoder().decode(Buffer.concat(chunks));
+    const now = Date.now();
+    await this.cache.set(cacheKey, {
+      url: this.studyFileUrl(accno, path),
+      status: file.status,
+      data: text,
+      storedAt: now,
+      expiresAt: now + this.cache.ttlFor(endpoint)
+    }, this.isPrivateRequest(endpoint));
+    return { data: text, status: file.status };
   }
 
   /**
    * Get external links for a study
    */
-  async getStudyLinks(accno: string): Promise<ApiResponse<any[]>> {
+  async getStudyLinks(accno: string, options: RequestOptions = {}): Promise<ApiResponse<any[]>> {
     if (!this.isValidAccessionNumber(accno)) {
       return {
         error: `Invalid accession number format: ${accno}`,
@@ -222,13 +842,13 @@ export class BioStudiesApiClient {
       };
     }
 
-    return this.makeRequest<any[]>(`/studies/${accno}/links`);
+    return this.studyRequest<any[]>(accno, '/links', options);
   }
 
   /**
    * Validate a study accession number
    */
-  async validateStudyAccession(accno: string): Promise<ApiResponse<StudyValidation>> {
+  async validateStudyAccession(accno: string, options: RequestOptions = {}): Promise<ApiResponse<StudyValidation>> {
     const validation: StudyValidation = {
       accno,
       isValid: this.isValidAccessionNumber(accno),
@@ -243,9 +863,17 @@ export class BioStudiesApiClient {
     }
 
     // Try to fetch the study to see if it exists
-    const studyResult = await this.getStudyDetails(accno);
-    
+    const studyResult = await this.getStudyDetails(accno, options);
+
+    // Only a 404 means the study does not exist; other failures are reported as errors
+    if (studyResult.error && studyResult.status !== 404) {
+      return { error: studyResult.error, status: studyResult.status, attempts: studyResult.attempts };
+    }
+
     validation.exists = !studyResult.error && !!studyResult.data;
+    if (studyResult.keySource) {
+      validation.accessedWithKey = validation.exists;
+    }
     if (studyResult.data) {
       validation.isPublic = studyResult.data.isPublic;
       validation.collection = studyResult.data.collection;
@@ -261,14 +889,21 @@ export class BioStudiesApiClient {
   /**
    * Get statistics for collections or studies
    */
-  async getStatistics(): Promise<ApiResponse<Statistics>> {
-    return this.makeRequest<Statistics>('/statistics');
+  async getStatistics(options: RequestOptions = {}): Promise<ApiResponse<Statistics>> {
+    return this.makeRequest<Statistics>('/statistics', {}, options);
   }
 
   /**
-   * Batch retrieve multiple studies
+   * Batch retrieve multiple studies, in chunks of BATCH_CHUNK_SIZE
+   * onItem is called as each study completes, with the number of completed items so far
+   * Aborting options.signal stops queued and running requests and skips the remaining chunks
+   * options.keys maps accessions of private studies to their secret access keys
    */
-  async batchGetStudies(accessions: string[]): Promise<ApiResponse<BulkOperationResult>> {
+  async batchGetStudies(
+    accessions: string[],
+    options: RequestOptions & { keys?: Record<string, string> } = {},
+    onItem?: (item: BulkOperationItem, completed: number) => void | Promise<void>
+  ): Promise<ApiResponse<BulkOperationResult>> {
     if (accessions.length === 0) {
       return {
         data: {
@@ -276,43 +911,75 @@ export class BioStudiesApiClient {
           failed: [],
           total: 0,
           successCount: 0,
-          failureCount: 0
+          failureCount: 0,
+          durationMs: 0,
+          items: [],
+          studies: []
         },
         status: 200
       };
     }
 
-    if (accessions.length > 50) {
+    if (accessions.length > MAX_BATCH_SIZE) {
       return {
-        error: 'Maximum 50 accessions can be processed at once',
+        error: `Maximum ${MAX_BATCH_SIZE} accessions can be processed at once`,
         status: 400
       };
     }
 
-    const results = await Promise.allSettled(
-      accessions.map(async (accno) => {
-        const result = await this.getStudyDetails(accno);
-        if (result.error) {
-          throw new Error(result.error);
-        }
-        return accno;
-      })
-    );
+    // Every queued or running request in a chunk listens for cancellation on the same signal
+    if (options.signal) {
+      setMaxListeners(BATCH_CHUNK_SIZE * 4, options.signal);
+    }
 
-    const successful: string[] = [];
-    const failed: Array<{ accno: string; error: string }> = [];
+    const { keys, ...requestOptions } = options;
+    const batchStarted = Date.now();
+    const items: BulkOperationItem[] = new Array(accessions.length);
+    const summaries: Array<StudySummary | undefined> = new Array(accessions.length);
+    let completed = 0;
 
-    results.forEach((result, index) => {
-      const accno = accessions[index];
-      if (result.status === 'fulfilled') {
-        successful.push(accno);
-      } else {
-        failed.push({
+    // Requests are throttled by the shared scheduler; chunking bounds the work queued at once
+    for (let start = 0; start < accessions.length; start += BATCH_CHUNK_SIZE) {
+      if (options.signal?.aborted) break;
+
+      const chunk = accessions.slice(start, start + BATCH_CHUNK_SIZE);
+      await Promise.all(chunk.map(async (accno, offset) => {
+        const started = Date.now();
+        const result = await this.getStudyDetails(accno, { ...requestOptions, key: keys?.[accno] });
+        if (result.status === CANCELLED_STATUS) return;
+
+        const item: BulkOperationItem = {
           accno,
-          error: result.reason.message || 'Unknown error'
-        });
-      }
-    });
+          status: result.error ? 'failed' : 'success',
+          durationMs: Date.now() - started,
+          attempts: result.attempts,
+          cached: result.cached
+        };
+        if (result.error || !result.data) {
+          item.status = 'failed';
+          item.error = result.error || 'Empty response';
+          item.category = this.categorizeFailure(result.status);
+        } else {
+          summaries[start + offset] = summarizeStudy(result.data);
+        }
+
+        items[start + offset] = item;
+        completed++;
+        await onItem?.(item, completed);
+      }));
+    }
+
+    if (options.signal?.aborted) {
+      return {
+        error: `Batch cancelled after ${completed} of ${accessions.length} studies`,
+        status: CANCELLED_STATUS
+      };
+    }
+
+    const successful = items.filter(item => item.status === 'success').map(item => item.accno);
+    const failed = items
+      .filter(item => item.status === 'failed')
+      .map(item => ({ accno: item.accno, error: item.error!, category: item.category }));
 
     return {
       data: {
@@ -320,12 +987,108 @@ export class BioStudiesApiClient {
         failed,
         total: accessions.length,
         successCount: successful.length,
-        failureCount: failed.length
+        failureCount: failed.length,
+        durationMs: Date.now() - batchStarted,
+        items,
+        studies: summaries.filter((summary): summary is StudySummary => !!summary)
       },
       status: 200
     };
   }
 
+  /**
+   * Map the status of a failed request to an error category
+   */
+  categorizeFailure(status: number): ErrorCategory {
+    switch (status) {
+      case 0: return 'network';
+      case 400: return 'invalid_accession';
+      case 401:
+      case 403: return 'access_denied';
+      case 404: return 'not_found';
+      case 408: return 'timeout';
+      case 429: return 'rate_limited';
+      case 503: return 'unavailable';
+      case CANCELLED_STATUS: return 'cancelled';
+      default: return status >= 500 ? 'server_error' : 'unknown';
+    }
+  }
+
+  /**
+   * Append facet filters as facet.{name}={value} query parameters
+   */
+  private appendFacetFilters(searchParams: URLSearchParams, facets: Record<string, string[]>): void {
+    Object.entries(facets).forEach(([name, values]) => {
+      const facetName = name.startsWith('facet.') ? name : `facet.${name}`;
+      values.forEach(value => searchParams.append(facetName, value));
+    });
+  }
+
+  /**
+   * Path prefix scoping search and facet endpoints to a collection
+   */
+  private collectionPrefix(collection?: string): string {
+    return collection ? `/${encodeURIComponent(collection.toLowerCase())}` : '';
+  }
+
+  /**
+   * Convert a raw /search response into the SearchResponse shape used by the handlers
+   * Null fields become undefined, as the output schemas only allow the declared types
+   */
+  private normalizeSearchResponse(raw: RawSearchResponse): SearchResponse {
+    const hits: StudySearchResult[] = (raw.hits || []).map(hit => ({
+      accno: hit.accession,
+      title: hit.title || 'Title not available',
+      authors: hit.author ? hit.author.split(/\s*,\s*/).filter(Boolean) : undefined,
+      releaseDate: hit.release_date ?? undefined,
+      type: hit.type ?? undefined,
+      views: hit.views ?? undefined,
+      fileCount: hit.files ?? undefined,
+      linkCount: hit.links ?? undefined,
+      isPublic: hit.isPublic ?? undefined
+    }));
+
+    return {
+      hits,
+      totalHits: raw.totalHits || 0,
+      page: raw.page,
+      size: raw.pageSize,
+      sortBy: raw.sortBy ?? undefined,
+      sortOrder: raw.sortOrder ?? undefined,
+      query: raw.query ?? undefined,
+      facets: Array.isArray(raw.facets) ? raw.facets.map(facet => this.normalizeFacet(facet)) : undefined,
+      pagination: this.buildPagination(raw.page, raw.pageSize, raw.totalHits || 0)
+    };
+  }
+
+  /**
+   * Derive pagination details from a 1-based page, page size and total result count
+   */
+  private buildPagination(page: number, size: number, totalResults: number): PaginationInfo {
+    const totalPages = size > 0 ? Math.ceil(totalResults / size) : 0;
+    return {
+      page,
+      size,
+      totalResults,
+      totalPages,
+      hasNext: page < totalPages,
+      hasPrevious: page > 1
+    };
+  }
+
+  /**
+   * Convert a raw facet into a Facet with its values sorted by count
+   */
+  private normalizeFacet(raw: RawFacet): Facet {
+    return {
+      name: raw.name.replace(/^facet\./, ''),
+      title: raw.title ?? undefined,
+      values: (raw.children || [])
+        .map(child => ({ value: child.value, count: child.hits }))
+        .sort((a, b) => b.count - a.count)
+    };
+  }
+
   /**
    * Check if an accession number has valid format
    * BioStudies accession numbers typically follow patterns like:
@@ -0,0 +1,346 @@
+/**
+ * Auth Manager - The server's BioStudies login session
+ * Credentials come from environment variables or a credentials file, never from tool arguments.
+ * The session token is persisted between runs and renewed automatically before it expires.
+ */
+
+import { promises as fs } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { AuthCredentials, AuthSource, AuthStatus } from '../types/biostudies.js';
+import { AuthSession, BioStudiesApiClient } from './api-client.js';
+
+export interface AuthManagerOptions {
+  token?: string;
+  login?: string;
+  password?: string;
+  credentialsFile: string;
+  sessionFile?: string;
+}
+
+/**
+ * Active session; expiresAt is undefined when the API did not report an expiry
+ */
+interface Session {
+  token: string;
+  login?: string;
+  user?: string;
+  expires?: string;
+  expiresAt?: number;
+  source: AuthSource;
+}
+
+interface Credentials extends AuthCredentials {
+  source: AuthSource;
+}
+
+/**
+ * Contents of the credentials file: a login and password, or a token
+ */
+interface CredentialsFile {
+  login?: string;
+  password?: string;
+  token?: string;
+}
+
+/**
+ * Tokens are renewed this long before they expire, so in-flight requests do not fail
+ */
+const EXPIRY_MARGIN = 60 * 1000;
+
+export class AuthManager implements AuthSession {
+  private session?: Session;
+  private autoLogin = true;
+  private lastError?: string;
+  private pendingLogin?: Promise<AuthStatus>;
+  private initialized?: Promise<void>;
+  private credentialsFile?: Promise<CredentialsFile | undefined>;
+  private readonly sessionFile: string;
+
+  constructor(
+    private readonly client: BioStudiesApiClient,
+    private readonly options: AuthManagerOptions
+  ) {
+    this.sessionFile = options.sessionFile ?? join(dirname(options.credentialsFile), 'session.json');
+    client.setAuthSession(this);
+  }
+
+  /**
+   * Make sure a valid token is set before a request, logging in when credentials are available
+   */
+  async beforeRequest(): Promise<void> {
+    await this.initialize();
+    if (this.pendingLogin) {
+      await this.pendingLogin;
+      return;
+    }
+    if (this.session && !this.isExpiring(this.session)) return;
+
+    if (this.autoLogin && await this.readCredentials()) {
+      await this.login();
+    } else if (this.session && this.isExpired(this.session)) {
+      this.setSession(undefined);
+    }
+  }
+
+  /**
+   * Log in again after the API rejected a token, unless another request already did
+   */
+  async renew(rejectedToken: string): Promise<boolean> {
+    if (this.pendingLogin) {
+      return (await this.pendingLogin).authenticated;
+    }
+    if (this.session && this.session.token !== rejectedToken) return true;
+
+    if (!this.autoLogin || !await this.readCredentials()) {
+      this.lastError = 'The BioStudies session was rejected and no credentials are available to log in again';
+      this.setSession(undefined);
+      return false;
+    }
+    return (await this.login()).authenticated;
+  }
+
+  /**
+   * Log in with the configured credentials, persisting the session token
+   * Concurrent calls share one login request; re-enables automatic login after a logout or failure
+   */
+  login(signal?: AbortSignal, reloadCredentials = false): Promise<AuthStatus> {
+    if (reloadCredentials) {
+      this.credentialsFile = undefined;
+    }
+    if (!this.pendingLogin) {
+      this.pendingLogin = this.performLogin(signal).finally(() => {
+        this.pendingLogin = undefined;
+      });
+    }
+    return this.pendingLogin;
+  }
+
+  /**
+   * Forget the session token and stop logging in automatically until the next explicit login
+   */
+  async logout(): Promise<AuthStatus> {
+    await this.initialize();
+    this.autoLogin = false;
+    this.lastError = undefined;
+    this.setSession(undefined);
+    await fs.rm(this.sessionFile, { force: true });
+    return this.status();
+  }
+
+  /**
+   * Current authentication state, without any secrets
+   */
+  async status(): Promise<AuthStatus> {
+    await this.initialize();
+    const session = this.session && !this.isExpired(this.session) ? this.session : undefined;
+    const credentials = await this.readCredentials();
+
+    return {
+      authenticated: !!session,
+      user: session?.user ?? session?.login,
+      expires: session?.expires,
+      expiresInSeconds: session?.expiresAt !== undefined
+        ? Math.max(0, Math.round((session.expiresAt - Date.now()) / 1000))
+        : undefined,
+      tokenSource: session?.source,
+      credentialsSource: credentials?.source,
+      autoLogin: this.autoLogin && !!credentials,
+      lastError: this.lastError
+    };
+  }
+
+  private async performLogin(signal?: AbortSignal): Promise<AuthStatus> {
+    await this.initialize();
+    this.autoLogin = true;
+
+    const credentials = await this.readCredentials();
+    if (!credentials) {
+      // A configured token needs no login; it is restored after a logout
+      const file = await this.readCredentialsFile();
+      const token = this.options.token ?? file?.token;
+      if (token) {
+        this.lastError = undefined;
+        this.setSession({ token, source: this.options.token ? 'environment' : 'credentials_file' });
+        return this.status();
+      }
+
+      this.lastError = this.lastError ?? 'No credentials configured; set BIOSTUDIES_LOGIN and BIOSTUDIES_PASSWORD, ' +
+        `BIOSTUDIES_TOKEN, or create ${this.options.credentialsFile}`;
+      return this.status();
+    }
+
+    const result = await this.client.authenticate(
+      { login: credentials.login, password: credentials.password },
+      { signal }
+    );
+
+    if (result.error || !result.data?.token) {
+      // A rejected password would be rejected again; wait for an explicit login
+      this.autoLogin = false;
+      this.lastError = this.redact(
+        `Login as ${credentials.login} failed: ${result.error || 'no token returned'}`,
+        credentials.password
+      );
+      this.setSession(undefined);
+      return this.status();
+    }
+
+    this.lastError = undefined;
+    this.setSession({
+      token: result.data.token,
+      login: credentials.login,
+      user: result.data.user,
+      expires: result.data.expires,
+      expiresAt: this.parseExpiry(result.data.expires),
+      source: credentials.source
+    });
+    await this.saveSession();
+    return this.status();
+  }
+
+  /**
+   * Load the token from the environment or a persisted session, once
+   */
+  private initialize(): Promise<void> {
+    this.initialized ??= (async () => {
+      if (this.options.token) {
+        this.setSession({ token: this.options.token, source: 'environment' });
+        return;
+      }
+
+      const file = await this.readCredentialsFile();
+      if (file?.token) {
+        this.setSession({ token: file.token, source: 'credentials_file' });
+        return;
+      }
+
+      const credentials = await this.readCredentials();
+      const stored = await this.loadSession();
+      // A session saved for another account is ignored once credentials change
+      if (stored && !this.isExpired(stored) && (!credentials || stored.login === credentials.login)) {
+        this.setSession(stored);
+      }
+    })();
+    return this.initialized;
+  }
+
+  /**
+   * Login credentials from the environment, falling back to the credentials file
+   */
+  private async readCredentials(): Promise<Credentials | undefined> {
+    if (this.options.login && this.options.password) {
+      return { login: this.options.login, password: this.options.password, source: 'environment' };
+    }
+
+    const file = await this.readCredentialsFile();
+    if (file?.login && file.password) {
+      return { login: file.login, password: file.password, source: 'credentials_file' };
+    }
+    return undefined;
+  }
+
+  /**
+   * Read the credentials file once; an explicit login reads it again
+   */
+  private readCredentialsFile(): Promise<CredentialsFile | undefined> {
+    this.credentialsFile ??= (async () => {
+      const path = this.options.credentialsFile;
+      let contents: any;
+      try {
+        const stats = await fs.stat(path);
+        if (process.platform !== 'win32' && (stats.mode & 0o077) !== 0) {
+          console.error(`Warning: ${path} is readable by other users; restrict it with chmod 600`);
+        }
+        contents = JSON.parse(await fs.readFile(path, 'utf8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          // Parse errors can quote the file contents, so only the path is reported
+          this.lastError = `Could not read credentials file ${path}`;
+        }
+        return undefined;
+      }
+
+      const file: CredentialsFile = {
+        login: typeof contents?.login === 'string' ? contents.login : undefined,
+        password: typeof contents?.password === 'string' ? contents.password : undefined,
+        token: typeof contents?.token === 'string' ? contents.token : undefined
+      };
+      if (!file.token && !(file.login && file.password)) {
+        this.lastError = `Credentials file ${path} must contain "login" and "password", or "token"`;
+        return undefined;
+      }
+      return file;
+    })();
+    return this.credentialsFile;
+  }
+
+  private setSession(session: Session | undefined): void {
+    this.session = session;
+    if (session) {
+      this.client.setAuthToken(session.token);
+    } else {
+      this.client.clearAuthentication();
+    }
+  }
+
+  private async loadSession(): Promise<Session | undefined> {
+    try {
+      const stored = JSON.parse(await fs.readFile(this.sessionFile, 'utf8'));
+      if (typeof stored?.token !== 'string') return undefined;
+      return {
+        token: stored.token,
+        login: stored.login,
+        user: stored.user,
+        expires: stored.expires,
+        expiresAt: this.parseExpiry(stored.expires),
+        source: 'session_file'
+      };
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Persist the session token, readable only by the current user
+   */
+  private async saveSession(): Promise<void> {
+    if (!this.session) return;
+    const { token, login, user, expires } = this.session;
+    try {
+      await fs.mkdir(dirname(this.sessionFile), { recursive: true, mode: 0o700 });
+      await fs.writeFile(this.sessionFile, JSON.stringify({ token, login, user, expires }), { mode: 0o600 });
+    } catch (error) {
+      console.error(`Warning: could not save the BioStudies session to ${this.sessionFile}:`, (error as Error).message);
+    }
+  }
+
+  /**
+   * Parse an expiry given as an ISO date or epoch seconds/milliseconds
+   */
+  private parseExpiry(expires?: string): number | undefined {
+    if (!expires) return undefined;
+    if (/^\d+$/.test(String(expires))) {
+      const value = Number(expires);
+      return value < 1e12 ? value * 1000 : value;
+    }
+    const time = Date.parse(expires);
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  private isExpired(session: Session): boolean {
+    return session.expiresAt !== undefined && session.expiresAt <= Date.now();
+  }
+
+  private isExpiring(session: Session): boolean {
+    return session.expiresAt !== undefined && session.expiresAt - EXPIRY_MARGIN <= Date.now();
+  }
+
+  /**
+   * Remove any configured secret from a message before it is reported
+   */
+  private redact(message: string, ...secrets: string[]): string {
+    return [this.options.password, this.options.token, this.session?.token, ...secrets]
+      .filter((secret): secret is string => !!secret && secret.length >= 4)
+      .reduce((text, secret) => text.split(secret).join('***'), message);
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Cancellation helpers - abortable waits used to stop queued and backing-off
+ * requests as soon as the MCP client cancels a tool call
+ */
+
+/**
+ * Status reported for requests abandoned because the caller cancelled them
+ * (the nginx "client closed request" code; never sent by the BioStudies API)
+ */
+export const CANCELLED_STATUS = 499;
+
+/**
+ * Error raised when a wait is interrupted by an aborted signal
+ */
+export function abortError(signal?: AbortSignal): Error {
+  const reason = signal?.reason;
+  if (reason instanceof Error && reason.name === 'AbortError') return reason;
+
+  const error = new Error('Request cancelled');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Whether an error was raised by an aborted signal
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Wait for the given time, rejecting early with an AbortError if the signal aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError(signal));
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Signal that aborts when any of the given signals does, with that signal's reason
+ * Stands in for AbortSignal.any, which Node only has from 20.3
+ */
+export function anySignal(signals: AbortSignal[]): AbortSignal {
+  const controller = new AbortController();
+  const aborted = signals.find(signal => signal.aborted);
+  if (aborted) {
+    controller.abort(aborted.reason);
+    return controller.signal;
+  }
+
+  const listeners = signals.map(signal => {
+    const onAbort = () => {
+      controller.abort(signal.reason);
+      signals.forEach((other, i) => other.removeEventListener('abort', listeners[i]));
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+    return onAbort;
+  });
+  return controller.signal;
+}
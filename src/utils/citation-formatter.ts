@@ -0,0 +1,205 @@
+/**
+ * Citation Formatter - BibTeX, RIS and CSL-JSON citations for studies and their linked publications
+ */
+
+import { Publication, StudyDetails } from '../types/biostudies.js';
+import { findAttribute } from './section-walker.js';
+
+export type CitationFormat = 'bibtex' | 'ris' | 'csl_json';
+
+export const CITATION_FORMATS: CitationFormat[] = ['bibtex', 'ris', 'csl_json'];
+
+const BIOSTUDIES_PUBLISHER = 'BioStudies, EMBL-EBI';
+
+export interface PersonName {
+  family: string;
+  given?: string;
+}
+
+/**
+ * Format-independent citation of a dataset or a journal article
+ */
+export interface CitationRecord {
+  id: string;
+  kind: 'dataset' | 'article';
+  title: string;
+  authors: PersonName[];
+  year?: string;
+  publisher?: string;
+  journal?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  doi?: string;
+  pmid?: string;
+  url?: string;
+  accno?: string;
+}
+
+/**
+ * Landing page of a study on the BioStudies website
+ */
+export function studyLandingPage(accno: string): string {
+  return `https://www.ebi.ac.uk/biostudies/studies/${accno}`;
+}
+
+/**
+ * Citation of the study as a dataset, followed by its linked publications
+ */
+export function studyCitations(study: StudyDetails, includePublications = true): CitationRecord[] {
+  const doi = findAttribute(study.attributes, 'DOI') ?? findAttribute(study.section?.attributes, 'DOI');
+  const dataset: CitationRecord = {
+    id: study.accno,
+    kind: 'dataset',
+    title: study.title || study.accno,
+    authors: (study.authors || []).map(author => parseName(author.name)),
+    year: study.releaseDate?.slice(0, 4),
+    publisher: BIOSTUDIES_PUBLISHER,
+    doi: doi && stripDoi(doi),
+    url: studyLandingPage(study.accno),
+    accno: study.accno
+  };
+
+  const publications = includePublications
+    ? (study.publications || []).map((publication, index) => publicationCitation(publication, `${study.accno}_pub${index + 1}`))
+    : [];
+  return [dataset, ...publications];
+}
+
+/**
+ * Render citations in the given format; CSL-JSON is returned as a JSON array
+ */
+export function formatCitations(format: CitationFormat, records: CitationRecord[]): string {
+  if (format === 'csl_json') {
+    return JSON.stringify(records.map(toCslJson), null, 2);
+  }
+  return records.map(format === 'bibtex' ? toBibtex : toRis).join('\n');
+}
+
+function publicationCitation(publication: Publication, id: string): CitationRecord {
+  return {
+    id,
+    kind: 'article',
+    title: publication.title || 'Untitled publication',
+    authors: splitAuthorList(publication.authors),
+    year: publication.year?.match(/\d{4}/)?.[0],
+    journal: publication.journal,
+    volume: publication.volume,
+    issue: publication.issue,
+    pages: publication.pages,
+    doi: publication.doi && stripDoi(publication.doi),
+    pmid: publication.pmid,
+    url: publication.pmid && !publication.doi ? `https://pubmed.ncbi.nlm.nih.gov/${publication.pmid}/` : undefined
+  };
+}
+
+function toBibtex(record: CitationRecord): string {
+  const fields: Array<[string, string | undefined]> = [
+    ['author', record.authors.map(name => name.given ? `${name.family}, ${name.given}` : name.family).join(' and ') || undefined],
+    ['title', record.title],
+    ['journal', record.journal],
+    ['volume', record.volume],
+    ['number', record.issue],
+    ['pages', record.pages?.replace(/-+/, '--')],
+    ['year', record.year],
+    ['publisher', record.publisher],
+    ['howpublished', record.kind === 'dataset' ? 'Dataset' : undefined],
+    ['doi', record.doi],
+    ['url', record.kind === 'dataset' ? record.url : undefined],
+    ['pmid', record.pmid],
+    ['note', record.accno ? `BioStudies accession ${record.accno}` : undefined]
+  ];
+
+  const lines = fields
+    .filter(([, value]) => value)
+    .map(([name, value]) => `  ${name} = {${name === 'url' || name === 'doi' ? value : escapeBibtex(value!)}}`);
+  return `@${record.kind === 'dataset' ? 'misc' : 'article'}{${record.id},\n${lines.join(',\n')}\n}\n`;
+}
+
+function toRis(record: CitationRecord): string {
+  const [startPage, endPage] = (record.pages || '').split(/-+/);
+  const tags: Array<[string, string | undefined]> = [
+    ['TY', record.kind === 'dataset' ? 'DATA' : 'JOUR'],
+    ['ID', record.id],
+    ...record.authors.map((name): [string, string] => ['AU', name.given ? `${name.family}, ${name.given}` : name.family]),
+    ['TI', record.title],
+    ['T2', record.journal],
+    ['VL', record.volume],
+    ['IS', record.issue],
+    ['SP', startPage || undefined],
+    ['EP', endPage],
+    ['PY', record.year],
+    ['PB', record.publisher],
+    ['AN', record.accno ?? (record.pmid && `PMID:${record.pmid}`)],
+    ['DO', record.doi],
+    ['UR', record.url ?? (record.doi && `https://doi.org/${record.doi}`)],
+    ['ER', '']
+  ];
+
+  return tags
+    .filter(([tag, value]) => value || tag === 'ER')
+    .map(([tag, value]) => `${tag}  - ${value}`.trimEnd())
+    .join('\n') + '\n';
+}
+
+function toCslJson(record: CitationRecord): Record<string, any> {
+  const item: Record<string, any> = {
+    id: record.id,
+    type: record.kind === 'dataset' ? 'dataset' : 'article-journal',
+    title: record.title,
+    author: record.authors.map(name => name.given ? { family: name.family, given: name.given } : { literal: name.family })
+  };
+  if (record.year) item.issued = { 'date-parts': [[Number(record.year)]] };
+  if (record.publisher) item.publisher = record.publisher;
+  if (record.journal) item['container-title'] = record.journal;
+  if (record.volume) item.volume = record.volume;
+  if (record.issue) item.issue = record.issue;
+  if (record.pages) item.page = record.pages;
+  if (record.doi) item.DOI = record.doi;
+  if (record.pmid) item.PMID = record.pmid;
+  if (record.url) item.URL = record.url;
+  if (record.accno) item.number = record.accno;
+  return item;
+}
+
+/**
+ * Split a publication's author list, e.g. "Smith J, Doe AB" or "Smith, John; Doe, Anna"
+ */
+function splitAuthorList(authors?: string): PersonName[] {
+  if (!authors) return [];
+  const names = authors.includes(';') ? authors.split(';') : authors.split(/,|\band\b/);
+  return names
+    .map(name => name.trim())
+    .filter(name => name && !/^et\.? al\.?$/i.test(name))
+    .map(parseName);
+}
+
+/**
+ * Split a personal name into family and given names
+ * Handles "Family, Given", "Family AB" (initials last, as in PubMed) and "Given Family"
+ */
+function parseName(name: string): PersonName {
+  const trimmed = name.trim().replace(/\s+/g, ' ');
+  const comma = trimmed.indexOf(',');
+  if (comma > 0) {
+    return { family: trimmed.slice(0, comma).trim(), given: trimmed.slice(comma + 1).trim() || undefined };
+  }
+
+  const initials = trimmed.match(/^(.+?) ((?:[A-Z]\.? ?){1,3})$/);
+  if (initials) return { family: initials[1], given: initials[2].trim() };
+
+  const parts = trimmed.split(' ');
+  if (parts.length === 1) return { family: trimmed };
+  // Particles such as "van" and "de" belong to the family name
+  let start = parts.length - 1;
+  while (start > 1 && /^(van|von|der|den|de|del|da|di|la|le|dos|du)$/i.test(parts[start - 1])) start--;
+  return { family: parts.slice(start).join(' '), given: parts.slice(0, start).join(' ') };
+}
+
+function stripDoi(doi: string): string {
+  return doi.trim().replace(/^(https?:\/\/(dx\.)?doi\.org\/|doi:)/i, '');
+}
+
+function escapeBibtex(value: string): string {
+  return value.replace(/([&%$#_{}])/g, '\\$1');
+}
@@ -0,0 +1,353 @@
+/**
+ * Server Configuration - Settings read from an optional JSON config file, environment
+ * variables and command-line options (later sources win), validated once at startup
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import { parseArgs } from 'node:util';
+import { isLoopbackHost } from './http-server.js';
+import { DEFAULT_CACHE_DIRECTORY } from './response-cache.js';
+import { DEFAULT_SCHEDULER_OPTIONS } from './request-scheduler.js';
+
+export interface ServerConfig {
+  baseUrl: string;
+  filesUrl?: string;
+  timeout: number;
+  userAgent: string;
+  concurrency: number;
+  requestsPerSecond: number;
+  cache: {
+    enabled: boolean;
+    directory: string;
+  };
+  enabledTools?: string[];
+  disabledTools: string[];
+  auth: {
+    token?: string;
+    login?: string;
+    password?: string;
+    credentialsFile: string;
+  };
+  keyringFile: string;
+  downloadDirectory: string;
+  transport: 'stdio' | 'http';
+  http: {
+    host: string;
+    port: number;
+    token?: string;
+  };
+  configFile?: string;
+}
+
+export const DEFAULT_BASE_URL = 'https://www.ebi.ac.uk/biostudies/api/v1';
+export const DEFAULT_TIMEOUT = 30000;
+export const DEFAULT_USER_AGENT = 'BioStudies-MCP-Server/0.1.0';
+export const DEFAULT_CONFIG_FILE = join(homedir(), '.config', 'biostudies-mcp-server', 'config.json');
+export const DEFAULT_CREDENTIALS_FILE = join(homedir(), '.config', 'biostudies-mcp-server', 'credentials.json');
+export const DEFAULT_KEYRING_FILE = join(homedir(), '.config', 'biostudies-mcp-server', 'keyring.json');
+export const DEFAULT_DOWNLOAD_DIRECTORY = join(homedir(), 'biostudies-downloads');
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+export const DEFAULT_HTTP_PORT = 3000;
+
+/**
+ * Command-line options; each overrides the matching config file setting and environment variable
+ */
+const COMMAND_LINE_OPTIONS = {
+  config: { type: 'string' },
+  transport: { type: 'string' },
+  host: { type: 'string' },
+  port: { type: 'string' }
+} as const;
+
+/**
+ * Invalid configuration; lists every problem found so they can be fixed in one go
+ */
+export class ConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid BioStudies MCP server configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Settings accepted in the JSON config file
+ */
+const FILE_KEYS = [
+  'baseUrl',
+  'filesUrl',
+  'timeout',
+  'userAgent',
+  'concurrency',
+  'requestsPerSecond',
+  'cache',
+  'enabledTools',
+  'disabledTools',
+  'credentialsFile',
+  'keyringFile',
+  'downloadDirectory',
+  'transport',
+  'http'
+];
+
+/**
+ * Load the server configuration
+ * The config file is --config or BIOSTUDIES_CONFIG if set, otherwise ~/.config/biostudies-mcp-server/config.json when present.
+ * Tool names are checked against knownTools; throws ConfigError listing all invalid settings.
+ */
+export function loadConfig(
+  knownTools: string[],
+  env: NodeJS.ProcessEnv = process.env,
+  argv: string[] = process.argv.slice(2)
+): ServerConfig {
+  const problems: string[] = [];
+
+  let cli: { config?: string; transport?: string; host?: string; port?: string } = {};
+  try {
+    cli = parseArgs({ args: argv, options: COMMAND_LINE_OPTIONS, allowPositionals: false }).values;
+  } catch (error) {
+    problems.push(`command line: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const configPath = cli.config ?? env.BIOSTUDIES_CONFIG;
+  const configFile = configPath
+    ? resolve(expandHome(configPath))
+    : existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined;
+  const file = configFile ? readConfigFile(configFile, problems) : {};
+  const cacheFile = objectSetting('cache', file.cache, problems);
+  const httpFile = objectSetting('http', file.http, problems);
+
+  const config: ServerConfig = {
+    baseUrl: parseUrl('baseUrl', env.BIOSTUDIES_API_URL ?? file.baseUrl ?? DEFAULT_BASE_URL, problems),
+    filesUrl: env.BIOSTUDIES_FILES_URL ?? file.filesUrl
+      ? parseUrl('filesUrl', env.BIOSTUDIES_FILES_URL ?? file.filesUrl, problems)
+      : undefined,
+    timeout: parseInteger('timeout', env.BIOSTUDIES_TIMEOUT ?? file.timeout ?? DEFAULT_TIMEOUT, 1, problems),
+    userAgent: parseString('userAgent', env.BIOSTUDIES_USER_AGENT ?? file.userAgent ?? DEFAULT_USER_AGENT, problems),
+    concurrency: parseInteger(
+      'concurrency',
+      env.BIOSTUDIES_CONCURRENCY ?? file.concurrency ?? DEFAULT_SCHEDULER_OPTIONS.concurrency,
+      1,
+      problems
+    ),
+    requestsPerSecond: parseNumber(
+      'requestsPerSecond',
+      env.BIOSTUDIES_REQUESTS_PER_SECOND ?? file.requestsPerSecond ?? DEFAULT_SCHEDULER_OPTIONS.requestsPerSecond,
+      problems
+    ),
+    cache: {
+      enabled: parseBoolean('cache.enabled', env.BIOSTUDIES_CACHE ?? cacheFile.enabled ?? true, problems),
+      directory: resolve(expandHome(parseString(
+        'cache.directory',
+        env.BIOSTUDIES_CACHE_DIR ?? cacheFile.directory ?? DEFAULT_CACHE_DIRECTORY,
+        problems
+      )))
+    },
+    enabledTools: parseToolList('enabledTools', env.BIOSTUDIES_TOOLS ?? file.enabledTools, knownTools, problems),
+    disabledTools: parseToolList('disabledTools', env.BIOSTUDIES_DISABLED_TOOLS ?? file.disabledTools, knownTools, problems) || [],
+    auth: {
+      token: env.BIOSTUDIES_TOKEN || undefined,
+      login: env.BIOSTUDIES_LOGIN || undefined,
+      password: env.BIOSTUDIES_PASSWORD || undefined,
+      credentialsFile: resolve(expandHome(parseString(
+        'credentialsFile',
+        env.BIOSTUDIES_CREDENTIALS_FILE ?? file.credentialsFile ?? DEFAULT_CREDENTIALS_FILE,
+        problems
+      )))
+    },
+    keyringFile: resolve(expandHome(parseString(
+      'keyringFile',
+      env.BIOSTUDIES_KEYRING_FILE ?? file.keyringFile ?? DEFAULT_KEYRING_FILE,
+      problems
+    ))),
+    downloadDirectory: resolve(expandHome(parseString(
+      'downloadDirectory',
+      env.BIOSTUDIES_DOWNLOAD_DIR ?? file.downloadDirectory ?? DEFAULT_DOWNLOAD_DIRECTORY,
+      problems
+    ))),
+    transport: parseTransport(cli.transport ?? env.BIOSTUDIES_TRANSPORT ?? file.transport ?? 'stdio', problems),
+    http: {
+      host: parseString('http.host', cli.host ?? env.BIOSTUDIES_HTTP_HOST ?? httpFile.host ?? DEFAULT_HTTP_HOST, problems),
+      port: parseInteger('http.port', cli.port ?? env.BIOSTUDIES_HTTP_PORT ?? httpFile.port ?? DEFAULT_HTTP_PORT, 1, problems),
+      token: env.BIOSTUDIES_HTTP_TOKEN ?? httpFile.token
+    },
+    configFile
+  };
+
+  if (!config.auth.login !== !config.auth.password) {
+    problems.push('BIOSTUDIES_LOGIN and BIOSTUDIES_PASSWORD must be set together');
+  }
+  if (config.http.port > 65535) {
+    problems.push(`http.port: must be at most 65535, got ${config.http.port}`);
+  }
+  if (config.http.token !== undefined && (typeof config.http.token !== 'string' || config.http.token.length < 16)) {
+    problems.push('http.token: must be a string of at least 16 characters');
+  }
+  if (config.transport === 'http' && config.http.host && !isLoopbackHost(config.http.host) && config.http.token === undefined) {
+    problems.push(`http.token: required when http.host is not a loopback address, got host "${config.http.host}"`);
+  }
+
+  if (config.enabledTools?.length === 0) {
+    problems.push('enabledTools: at least one tool must be enabled');
+  }
+
+  if (problems.length) {
+    throw new ConfigError(problems);
+  }
+
+  return config;
+}
+
+/**
+ * Tools that change the login shared by every client; not offered over HTTP, where clients are different users
+ */
+const SHARED_LOGIN_TOOLS = ['login', 'logout'];
+
+/**
+ * Whether a tool is exposed under the given configuration
+ */
+export function isToolEnabled(config: ServerConfig, name: string): boolean {
+  if (config.disabledTools.includes(name)) return false;
+  if (config.transport === 'http' && SHARED_LOGIN_TOOLS.includes(name)) return false;
+  return !config.enabledTools || config.enabledTools.includes(name);
+}
+
+/**
+ * One-line summary of the effective configuration for the startup log
+ */
+export function describeConfig(config: ServerConfig): string {
+  const parts = [
+    `api=${config.baseUrl}`,
+    `timeout=${config.timeout}ms`,
+    `concurrency=${config.concurrency}`,
+    `rate=${config.requestsPerSecond}/s`,
+    `cache=${config.cache.enabled ? config.cache.directory : 'off'}`
+  ];
+  if (config.configFile) parts.push(`config=${config.configFile}`);
+  return parts.join(', ');
+}
+
+/**
+ * Read and parse the JSON config file, recording unreadable files and unknown keys as problems
+ */
+function readConfigFile(path: string, problems: string[]): Record<string, any> {
+  let contents: unknown;
+  try {
+    contents = JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    problems.push(`config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    return {};
+  }
+
+  if (!isObject(contents)) {
+    problems.push(`config file ${path}: must contain a JSON object`);
+    return {};
+  }
+
+  Object.keys(contents)
+    .filter(key => !FILE_KEYS.includes(key))
+    .forEach(key => problems.push(`config file ${path}: unknown setting "${key}" (expected one of ${FILE_KEYS.join(', ')})`));
+
+  return contents;
+}
+
+/**
+ * Nested settings object from the config file, or an empty object when absent or invalid
+ */
+function objectSetting(name: string, value: unknown, problems: string[]): Record<string, any> {
+  if (value === undefined) return {};
+  if (!isObject(value)) {
+    problems.push(`${name}: must be an object`);
+    return {};
+  }
+  return value;
+}
+
+function parseTransport(value: unknown, problems: string[]): ServerConfig['transport'] {
+  if (value !== 'stdio' && value !== 'http') {
+    problems.push(`transport: must be "stdio" or "http", got ${JSON.stringify(value)}`);
+    return 'stdio';
+  }
+  return value;
+}
+
+function parseUrl(name: string, value: unknown, problems: string[]): string {
+  const text = parseString(name, value, problems);
+  try {
+    const url = new URL(text);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      problems.push(`${name}: must be an http(s) URL, got "${text}"`);
+    }
+  } catch {
+    problems.push(`${name}: not a valid URL: "${text}"`);
+  }
+  return text.replace(/\/+$/, '');
+}
+
+function parseString(name: string, value: unknown, problems: string[]): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    problems.push(`${name}: must be a non-empty string`);
+    return '';
+  }
+  return value.trim();
+}
+
+function parseNumber(name: string, value: unknown, problems: string[]): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) {
+    problems.push(`${name}: must be a non-negative number, got ${JSON.stringify(value)}`);
+    return 0;
+  }
+  return number;
+}
+
+function parseInteger(name: string, value: unknown, min: number, problems: string[]): number {
+  const number = typeof value === 'string' ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isInteger(number) || number < min) {
+    problems.push(`${name}: must be an integer of at least ${min}, got ${JSON.stringify(value)}`);
+    return min;
+  }
+  return number;
+}
+
+/**
+ * Parse a boolean, also accepting the strings true, false, on and off (case-insensitive) used in environment variables
+ */
+function parseBoolean(name: string, value: unknown, problems: string[]): boolean {
+  if (typeof value === 'boolean') return value;
+  const text = typeof value === 'string' ? value.trim().toLowerCase() : undefined;
+  if (text === 'true' || text === 'on') return true;
+  if (text === 'false' || text === 'off') return false;
+  problems.push(`${name}: must be true, false, on or off, got ${JSON.stringify(value)}`);
+  return true;
+}
+
+/**
+ * Parse a tool list from a comma-separated string or JSON array; undefined when not set
+ */
+function parseToolList(name: string, value: unknown, knownTools: string[], problems: string[]): string[] | undefined {
+  if (value === undefined) return undefined;
+
+  const tools = typeof value === 'string'
+    ? value.split(',').map(tool => tool.trim()).filter(Boolean)
+    : value;
+  if (!Array.isArray(tools) || tools.some(tool => typeof tool !== 'string')) {
+    problems.push(`${name}: must be a list of tool names`);
+    return undefined;
+  }
+
+  const unknown = tools.filter(tool => !knownTools.includes(tool));
+  if (unknown.length) {
+    problems.push(`${name}: unknown tool(s) ${unknown.join(', ')} (available: ${knownTools.join(', ')})`);
+  }
+  return tools;
+}
+
+function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? join(homedir(), path.slice(1)) : path;
+}
+
+function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
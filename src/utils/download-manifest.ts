@@ -0,0 +1,138 @@
+/**
+ * Download Manifest - Scripts and input files for downloading study files outside the MCP server,
+ * e.g. on HPC nodes, with an md5sum-compatible checksum file alongside
+ * Local paths are always <accno>/<path> relative to the directory the manifest is run from
+ */
+
+import { posix } from 'node:path';
+
+export type ManifestFormat = 'wget' | 'curl' | 'aria2' | 'aspera' | 'urls';
+
+export const MANIFEST_FORMATS: ManifestFormat[] = ['wget', 'curl', 'aria2', 'aspera', 'urls'];
+
+/**
+ * Maximum number of studies in one manifest
+ */
+export const MAX_MANIFEST_STUDIES = 100;
+
+/**
+ * One file to download; asperaSource is the file's path on the Aspera server, when known
+ */
+export interface ManifestEntry {
+  accno: string;
+  path: string;
+  url: string;
+  size?: number;
+  md5?: string;
+  asperaSource?: string;
+}
+
+export interface Manifest {
+  manifest: string;
+  manifestFilename: string;
+  checksums: string;
+  checksumsFilename: string;
+  checksumCount: number;
+}
+
+/**
+ * Aspera server of the EBI file archive; the generated command lets ASPERA_HOST and ASPERA_USER override them
+ */
+export const ASPERA_HOST = 'fasp.ebi.ac.uk';
+export const ASPERA_USER = 'fasp-bs';
+
+const CHECKSUMS_FILENAME = 'biostudies-files.md5';
+
+const MANIFEST_FILENAMES: Record<ManifestFormat, string> = {
+  wget: 'download-biostudies-files.sh',
+  curl: 'download-biostudies-files.sh',
+  aria2: 'biostudies-files.aria2',
+  aspera: 'biostudies-files.pairs',
+  urls: 'biostudies-files.txt'
+};
+
+/**
+ * Build the manifest in the given format together with the checksum file
+ */
+export function buildManifest(format: ManifestFormat, entries: ManifestEntry[], description: string): Manifest {
+  const withChecksums = entries.filter(entry => entry.md5);
+  const checksums = withChecksums.map(entry => `${entry.md5!.toLowerCase()}  ${localPath(entry)}`).join('\n');
+
+  return {
+    manifest: MANIFEST_BUILDERS[format](entries, description),
+    manifestFilename: MANIFEST_FILENAMES[format],
+    checksums: checksums ? `${checksums}\n` : '',
+    checksumsFilename: CHECKSUMS_FILENAME,
+    checksumCount: withChecksums.length
+  };
+}
+
+/**
+ * Local destination of a file, keeping its path within the study
+ */
+export function localPath(entry: ManifestEntry): string {
+  return posix.join(entry.accno, posix.normalize(entry.path).replace(/^(\.\.\/|\/)+/, ''));
+}
+
+const MANIFEST_BUILDERS: Record<ManifestFormat, (entries: ManifestEntry[], description: string) => string> = {
+  wget: (entries, description) => shellScript(entries, description, entry =>
+    `wget --continue --tries=5 -O ${shellQuote(localPath(entry))} ${shellQuote(entry.url)}`
+  ),
+
+  curl: (entries, description) => shellScript(entries, description, entry =>
+    `curl --fail --location --retry 5 --continue-at - -o ${shellQuote(localPath(entry))} ${shellQuote(entry.url)}`
+  ),
+
+  // aria2c --input-file=<manifest>; each URI is followed by indented per-download options
+  aria2: entries => entries.map(entry => {
+    const lines = [singleLine(entry.url), `  out=${singleLine(localPath(entry))}`];
+    if (entry.md5) lines.push(`  checksum=md5=${entry.md5.toLowerCase()}`);
+    return lines.join('\n');
+  }).join('\n') + '\n',
+
+  // ascp --file-pair-list=<manifest>: source and destination on alternating lines
+  aspera: entries => entries
+    .filter(entry => entry.asperaSource)
+    .map(entry => `${singleLine(entry.asperaSource!)}\n${singleLine(localPath(entry))}`)
+    .join('\n') + '\n',
+
+  urls: entries => entries.map(entry => singleLine(entry.url)).join('\n') + '\n'
+};
+
+/**
+ * Command that runs an Aspera pair list, with the key and server taken from the environment
+ */
+export function asperaCommand(manifestFilename: string): string {
+  return `ascp -QT -l 300m -P 33001 -i "$ASPERA_KEY" --mode=recv ` +
+    `--host="\${ASPERA_HOST:-${ASPERA_HOST}}" --user="\${ASPERA_USER:-${ASPERA_USER}}" ` +
+    `--file-pair-list=${manifestFilename} .`;
+}
+
+/**
+ * Bash script that creates the study directories and runs one download command per file
+ */
+function shellScript(entries: ManifestEntry[], description: string, command: (entry: ManifestEntry) => string): string {
+  const directories = Array.from(new Set(entries.map(entry => posix.dirname(localPath(entry))))).sort();
+  return [
+    '#!/usr/bin/env bash',
+    `# ${singleLine(description)}`,
+    `# Verify the downloads afterwards with: md5sum -c ${CHECKSUMS_FILENAME}`,
+    'set -euo pipefail',
+    '',
+    ...directories.map(directory => `mkdir -p ${shellQuote(directory)}`),
+    '',
+    ...entries.map(command),
+    ''
+  ].join('\n');
+}
+
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Replace line breaks, so a value cannot start a new line (and command) in a line-based manifest
+ */
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ');
+}
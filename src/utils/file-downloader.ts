@@ -0,0 +1,409 @@
+/**
+ * File Downloader - Fetches study files from the BioStudies file server into a local directory
+ * Each file is written to a .part file that later attempts resume with a Range request; the file is
+ * moved into place only once its size and MD5 checksum check out
+ */
+
+import { createWriteStream, promises as fs } from 'node:fs';
+import { dirname, join, resolve, sep } from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ReadableStream } from 'node:stream/web';
+import {
+  DownloadErrorCategory,
+  DownloadItem,
+  DownloadResult,
+  FileInfo
+} from '../types/biostudies.js';
+import { BioStudiesApiClient } from './api-client.js';
+import { CANCELLED_STATUS, anySignal, isAbortError, sleep } from './cancellation.js';
+import { RequestScheduler } from './request-scheduler.js';
+import { fileMd5, fileSize, safeRelativePath } from './local-files.js';
+import { DEFAULT_RETRY_OPTIONS, RetryOptions, backoffDelay, isRetryableStatus } from './retry-policy.js';
+
+export interface FileDownloaderOptions {
+  directory: string;
+  timeout: number;
+  retry?: Partial<RetryOptions>;
+}
+
+/**
+ * Study file to download; sectionPath is known when the file list came from the study's section tree
+ */
+export type DownloadFile = FileInfo & { sectionPath?: string };
+
+/**
+ * Per-call download settings
+ */
+export interface DownloadOptions {
+  directory: string;
+  concurrency: number;
+  verify: boolean;
+  key?: string;
+  signal?: AbortSignal;
+  onProgress?: (progress: DownloadProgress) => void | Promise<void>;
+}
+
+/**
+ * Progress of a download; bytesTotal is 0 when some file sizes are unknown
+ */
+export interface DownloadProgress {
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+  message: string;
+}
+
+/**
+ * Outcome of one transfer attempt
+ */
+interface TransferResult {
+  status: number;
+  error?: string;
+  category?: DownloadErrorCategory;
+  resumed: boolean;
+  bytes: number;
+}
+
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 4;
+export const MAX_DOWNLOAD_CONCURRENCY = 8;
+
+/**
+ * Suffix of files still being transferred
+ */
+export const PART_SUFFIX = '.part';
+
+/**
+ * Minimum time between byte-level progress reports
+ */
+const PROGRESS_INTERVAL = 1000;
+
+export class FileDownloader {
+  private readonly retryOptions: RetryOptions;
+
+  constructor(
+    private readonly client: BioStudiesApiClient,
+    private readonly options: FileDownloaderOptions
+  ) {
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...options.retry };
+  }
+
+  /**
+   * The configured download directory
+   */
+  rootDirectory(): string {
+    return resolve(this.options.directory);
+  }
+
+  /**
+   * Resolve a directory against the download directory
+   * Throws if it would leave the download directory, through an absolute path or ..
+   */
+  resolveDirectory(directory: string): string {
+    const root = this.rootDirectory();
+    const resolved = resolve(root, directory);
+    if (resolved !== root && !resolved.startsWith(root + sep)) {
+      throw new Error(`Download directory must be inside ${root}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Local directory for a study's files: {download directory}/{subdirectory}/{accno}
+   * Throws if the subdirectory would leave the download directory
+   */
+  studyDirectory(accno: string, subdirectory?: string): string {
+    return join(this.resolveDirectory(subdirectory || '.'), accno);
+  }
+
+  /**
+   * Download files of a study into options.directory, keeping their paths within the study
+   * Files already present with the expected size and checksum are skipped; failures are reported per file
+   */
+  async download(accno: string, files: DownloadFile[], options: DownloadOptions): Promise<DownloadResult> {
+    const started = Date.now();
+    const scheduler = new RequestScheduler({ concurrency: options.concurrency, requestsPerSecond: 0 });
+    const totalSize = files.every(file => file.size !== undefined)
+      ? files.reduce((sum, file) => sum + (file.size || 0), 0)
+      : 0;
+
+    const fileBytes = new Map<string, number>();
+    let filesDone = 0;
+    let lastReport = 0;
+    const report = async (message: string, force: boolean) => {
+      const now = Date.now();
+      if (!options.onProgress || (!force && now - lastReport < PROGRESS_INTERVAL)) return;
+      lastReport = now;
+      let bytesDone = 0;
+      fileBytes.forEach(bytes => { bytesDone += bytes; });
+      await options.onProgress({
+        filesDone,
+        filesTotal: files.length,
+        bytesDone: Math.min(bytesDone, totalSize),
+        bytesTotal: totalSize,
+        message
+      });
+    };
+
+    const items = await Promise.all(files.map(async file => {
+      const onBytes = (bytes: number) => {
+        fileBytes.set(file.path, bytes);
+        report(`Downloading ${file.path}`, false).catch(() => undefined);
+      };
+
+      let item: DownloadItem;
+      try {
+        item = await scheduler.schedule(
+          () => this.downloadFile(accno, file, options, onBytes),
+          options.signal
+        );
+      } catch (error) {
+        if (!isAbortError(error)) throw error;
+        item = {
+          ...this.newItem(file, join(options.directory, file.path)),
+          status: 'failed',
+          error: 'Download cancelled',
+          category: 'cancelled'
+        };
+      }
+
+      filesDone++;
+      const outcome = item.status === 'failed' ? `failed (${item.category})` : item.status;
+      await report(`${file.path} ${outcome} - ${filesDone}/${files.length}`, true);
+      return item;
+    }));
+
+    const count = (status: DownloadItem['status']) => items.filter(item => item.status === status).length;
+    return {
+      accno,
+      directory: options.directory,
+      total: items.length,
+      downloaded: count('downloaded') + count('resumed'),
+      resumed: count('resumed'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+      totalSize,
+      bytesTransferred: items.reduce((sum, item) => sum + item.bytesTransferred, 0),
+      durationMs: Date.now() - started,
+      items
+    };
+  }
+
+  /**
+   * Download one file, retrying transient failures by resuming from what was already written
+   */
+  private async downloadFile(
+    accno: string,
+    file: DownloadFile,
+    options: DownloadOptions,
+    onBytes: (bytes: number) => void
+  ): Promise<DownloadItem> {
+    const started = Date.now();
+    const path = safeRelativePath(file.path);
+    const item = this.newItem(file, path ? join(options.directory, path) : options.directory);
+    const fail = (error: string, category: DownloadErrorCategory): DownloadItem => ({
+      ...item,
+      status: 'failed',
+      error,
+      category,
+      durationMs: Date.now() - started
+    });
+
+    if (!path) {
+      return fail(`Unsafe file path: ${file.path}`, 'invalid_path');
+    }
+
+    const target = item.localPath;
+    const part = target + PART_SUFFIX;
+    const checkMd5 = options.verify && !!file.md5;
+
+    try {
+      // A complete file from an earlier run is kept as long as it still checks out
+      const existing = await fileSize(target);
+      if (existing !== undefined && (file.size === undefined || existing === file.size)) {
+        if (!checkMd5 || await md5Matches(target, file.md5!, options.signal)) {
+          onBytes(existing);
+          return {
+            ...item,
+            status: 'skipped',
+            md5Verified: checkMd5 || undefined,
+            durationMs: Date.now() - started
+          };
+        }
+      }
+
+      await fs.mkdir(dirname(target), { recursive: true });
+
+      let resumed = false;
+      for (let attempt = 1; ; attempt++) {
+        item.attempts = attempt;
+        const transfer = await this.transfer(accno, file, part, options, onBytes);
+        item.bytesTransferred += transfer.bytes;
+        resumed ||= transfer.resumed;
+
+        if (transfer.error) {
+          if (transfer.category || !isRetryableStatus(transfer.status) || attempt >= this.retryOptions.maxAttempts) {
+            return fail(transfer.error, transfer.category ?? this.client.categorizeFailure(transfer.status));
+          }
+          await sleep(backoffDelay(attempt, this.retryOptions), options.signal);
+          continue;
+        }
+
+        const size = (await fileSize(part)) ?? 0;
+        if (file.size !== undefined && size !== file.size) {
+          // A short file is resumed on the next attempt; a longer one cannot be the expected file
+          if (size < file.size && attempt < this.retryOptions.maxAttempts) continue;
+          await fs.rm(part, { force: true });
+          return fail(`Expected ${file.size} bytes but received ${size}`, 'size_mismatch');
+        }
+        break;
+      }
+
+      if (checkMd5 && !await md5Matches(part, file.md5!, options.signal)) {
+        await fs.rm(part, { force: true });
+        return { ...fail(`MD5 checksum does not match ${file.md5}`, 'checksum_mismatch'), md5Verified: false };
+      }
+
+      await fs.rename(part, target);
+      return {
+        ...item,
+        status: resumed ? 'resumed' : 'downloaded',
+        md5Verified: checkMd5 || undefined,
+        durationMs: Date.now() - started
+      };
+    } catch (error) {
+      if (isAbortError(error) || options.signal?.aborted) {
+        // The partial file is kept so the next download resumes it
+        return fail('Download cancelled', 'cancelled');
+      }
+      return fail(error instanceof Error ? error.message : String(error), 'write_failed');
+    }
+  }
+
+  /**
+   * Fetch the rest of a file into its .part file, appending when the server honours the Range request
+   * Aborts when no data arrives for the configured timeout
+   */
+  private async transfer(
+    accno: string,
+    file: DownloadFile,
+    part: string,
+    options: DownloadOptions,
+    onBytes: (bytes: number) => void
+  ): Promise<TransferResult> {
+    let offset = (await fileSize(part)) ?? 0;
+    if (file.size !== undefined && offset > file.size) {
+      await fs.rm(part, { force: true });
+      offset = 0;
+    }
+    if (offset > 0 && offset === file.size) {
+      return { status: 200, resumed: true, bytes: 0 };
+    }
+
+    const stalled = new AbortController();
+    const signal = options.signal ? anySignal([options.signal, stalled.signal]) : stalled.signal;
+    const opened = await this.client.openStudyFile(accno, file.path, { key: options.key, start: offset, signal });
+    if (opened.status === 416 && offset > 0) {
+      // Nothing left to send: the partial file already holds the whole file
+      return { status: 200, resumed: true, bytes: 0 };
+    }
+    if (opened.error || !opened.response?.body) {
+      return { status: opened.status, error: opened.error || 'Empty response', resumed: false, bytes: 0 };
+    }
+
+    // A server that ignores the Range header sends the whole file again
+    const resumed = offset > 0 && opened.status === 206;
+    if (!resumed) offset = 0;
+    onBytes(offset);
+
+    let bytes = 0;
+    const timer = setTimeout(() => stalled.abort(), this.options.timeout);
+    const meter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytes += chunk.length;
+        onBytes(offset + bytes);
+        timer.refresh();
+        callback(null, chunk);
+      }
+    });
+
+    try {
+      await pipeline(
+        Readable.fromWeb(opened.response.body as ReadableStream<Uint8Array>),
+        meter,
+        createWriteStream(part, { flags: resumed ? 'a' : 'w' }),
+        { signal }
+      );
+      return { status: opened.status, resumed, bytes };
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return { status: CANCELLED_STATUS, error: 'Download cancelled', resumed, bytes };
+      }
+      if (stalled.signal.aborted) {
+        return { status: 408, error: `No data received for ${this.options.timeout} ms`, resumed, bytes };
+      }
+      if ((error as NodeJS.ErrnoException).syscall) {
+        return { status: 0, error: (error as Error).message, category: 'write_failed', resumed, bytes };
+      }
+      return { status: 0, error: error instanceof Error ? error.message : String(error), resumed, bytes };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  private newItem(file: DownloadFile, localPath: string): DownloadItem {
+    return {
+      path: file.path,
+      sectionPath: file.sectionPath,
+      localPath,
+      status: 'failed',
+      size: file.size,
+      bytesTransferred: 0,
+      md5: file.md5,
+      attempts: 0,
+      durationMs: 0
+    };
+  }
+}
+
+/**
+ * Select files by exact path and/or a glob pattern; a pattern without "/" matches file names
+ * Throws if any requested path is not in the study
+ */
+export function selectFiles<T extends FileInfo>(files: T[], paths?: string[], pattern?: string): T[] {
+  let selected = files;
+
+  if (paths?.length) {
+    const byPath = new Map(files.map(file => [file.path, file]));
+    const missing = paths.filter(path => !byPath.has(path));
+    if (missing.length) {
+      throw new Error(`File(s) not found in the study: ${missing.join(', ')}`);
+    }
+    selected = Array.from(new Set(paths)).map(path => byPath.get(path)!);
+  }
+
+  if (pattern) {
+    const regex = globToRegExp(pattern);
+    selected = selected.filter(file => regex.test(pattern.includes('/') ? file.path : file.name));
+  }
+
+  return selected;
+}
+
+/**
+ * Convert a glob with *, ** and ? wildcards to an anchored regular expression
+ */
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern.split('**').map(part =>
+    part.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*').replace(/\?/g, '[^/]')
+  ).join('.*');
+  return new RegExp(`^${source}$`, 'i');
+}
+
+/**
+ * Whether a file's MD5 checksum matches the expected hex digest
+ */
+async function md5Matches(path: string, expected: string, signal?: AbortSignal): Promise<boolean> {
+  return (await fileMd5(path, signal)) === expected.trim().toLowerCase();
+}
@@ -0,0 +1,111 @@
+/**
+ * File Verifier - Compares a local copy of a study's files with the study's file metadata
+ * Reports missing files, wrong sizes, failed MD5 checks and files the study does not list
+ */
+
+import { join } from 'node:path';
+import { VerificationProblem, VerificationResult } from '../types/biostudies.js';
+import { DownloadFile, PART_SUFFIX, selectFiles } from './file-downloader.js';
+import { fileMd5, fileSize, listFiles, safeRelativePath } from './local-files.js';
+import { RequestScheduler } from './request-scheduler.js';
+
+export interface VerifyOptions {
+  checksums: boolean;
+  pattern?: string;
+  /** Files the server itself writes into study directories (metadata exports), never reported as unexpected */
+  ownFiles?: string[];
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number, message: string) => void | Promise<void>;
+}
+
+/**
+ * Files hashed at the same time; verification is bound by disk reads
+ */
+const VERIFY_CONCURRENCY = 2;
+
+/**
+ * Outcome of checking one listed file
+ */
+type FileCheck = { status: 'verified' | 'size_only' } | VerificationProblem;
+
+/**
+ * Check the files of a study below a directory against the given file metadata
+ * Files are expected at <directory>/<path>; pattern limits both the listed and the local files checked
+ */
+export async function verifyLocalFiles(
+  directory: string,
+  files: DownloadFile[],
+  options: VerifyOptions
+): Promise<Omit<VerificationResult, 'accno' | 'metadataStale' | 'metadataCachedAt'>> {
+  const started = Date.now();
+  const expected = selectFiles(files, undefined, options.pattern);
+  const scheduler = new RequestScheduler({ concurrency: VERIFY_CONCURRENCY, requestsPerSecond: 0 });
+
+  let done = 0;
+  const checks = await Promise.all(expected.map(file => scheduler.schedule(async () => {
+    const check = await checkFile(directory, file, options);
+    done++;
+    await options.onProgress?.(done, expected.length, `${file.path} ${isProblem(check) ? check.status : 'ok'} - ${done}/${expected.length}`);
+    return check;
+  }, options.signal)));
+
+  const problems = checks.filter(isProblem);
+  const count = (status: string) => checks.filter(check => check.status === status).length;
+
+  // Local files the study does not list; .part files of listed files are unfinished downloads
+  const listed = new Set(expected.map(file => safeRelativePath(file.path)).filter(Boolean));
+  const localFiles = (await listFiles(directory)).map(local => {
+    const path = local.endsWith(PART_SUFFIX) ? local.slice(0, -PART_SUFFIX.length) : local;
+    return { path, name: path.split('/').pop()!, local };
+  });
+  const local = selectFiles(localFiles, undefined, options.pattern).map(file => file.local);
+  const unlisted = local.filter(path => !listed.has(path));
+  const partial = unlisted.filter(path => path.endsWith(PART_SUFFIX) && listed.has(path.slice(0, -PART_SUFFIX.length)));
+  const unexpected = unlisted.filter(path => !partial.includes(path) && !options.ownFiles?.includes(path));
+
+  return {
+    directory,
+    complete: problems.length === 0,
+    expected: expected.length,
+    verified: count('verified'),
+    sizeOnly: count('size_only'),
+    missing: count('missing'),
+    sizeMismatch: count('size_mismatch'),
+    checksumMismatch: count('checksum_mismatch'),
+    invalidPaths: count('invalid_path'),
+    problems,
+    unexpected,
+    partial,
+    durationMs: Date.now() - started
+  };
+}
+
+function isProblem(check: FileCheck): check is VerificationProblem {
+  return check.status !== 'verified' && check.status !== 'size_only';
+}
+
+async function checkFile(directory: string, file: DownloadFile, options: VerifyOptions): Promise<FileCheck> {
+  const problem = (status: VerificationProblem['status'], details: Partial<VerificationProblem> = {}): VerificationProblem => ({
+    path: file.path,
+    sectionPath: file.sectionPath,
+    status,
+    expectedSize: file.size,
+    expectedMd5: file.md5,
+    ...details
+  });
+
+  const path = safeRelativePath(file.path);
+  if (!path) return problem('invalid_path');
+
+  const localPath = join(directory, path);
+  const localSize = await fileSize(localPath);
+  if (localSize === undefined) return problem('missing');
+  if (file.size !== undefined && localSize !== file.size) return problem('size_mismatch', { localSize });
+
+  if (!options.checksums || !file.md5) return { status: 'size_only' };
+
+  const localMd5 = await fileMd5(localPath, options.signal);
+  return localMd5 === file.md5.trim().toLowerCase()
+    ? { status: 'verified' }
+    : problem('checksum_mismatch', { localSize, localMd5 });
+}
@@ -0,0 +1,290 @@
+/**
+ * HTTP Server - Serves the MCP server over the Streamable HTTP transport
+ * Each client session gets its own MCP server instance; all sessions share one API client and cache
+ */
+
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { IncomingMessage, Server as NodeHttpServer, ServerResponse, createServer } from 'node:http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  token?: string;
+  /** Close sessions that have had no requests for this many milliseconds */
+  sessionIdleTimeout?: number;
+}
+
+/**
+ * Path of the MCP endpoint
+ */
+export const MCP_PATH = '/mcp';
+
+/**
+ * Path of the unauthenticated health endpoint
+ */
+export const HEALTH_PATH = '/health';
+
+/**
+ * Largest JSON-RPC request body accepted
+ */
+const MAX_BODY_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Sessions left idle this long are closed, as clients that go away without DELETE never end them
+ */
+export const DEFAULT_SESSION_IDLE_TIMEOUT = 30 * 60 * 1000;
+
+const LOOPBACK_HOSTS = ['127.0.0.1', 'localhost', '::1'];
+
+/**
+ * Whether a listen address only accepts connections from this machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host.toLowerCase()) || /^127\./.test(host);
+}
+
+interface Session {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  lastActivity: number;
+  /** Requests still being answered, including open event streams */
+  openRequests: number;
+}
+
+export class McpHttpServer {
+  private readonly sessions = new Map<string, Session>();
+  private readonly startedAt = Date.now();
+  private httpServer?: NodeHttpServer;
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly createMcpServer: () => Server,
+    private readonly options: HttpServerOptions
+  ) {}
+
+  /**
+   * Start listening; resolves once the port is bound
+   */
+  async listen(): Promise<void> {
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        console.error('BioStudies MCP HTTP request failed:', error);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+    this.httpServer = httpServer;
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    const idleTimeout = this.options.sessionIdleTimeout ?? DEFAULT_SESSION_IDLE_TIMEOUT;
+    this.sweepTimer = setInterval(() => this.closeIdleSessions(idleTimeout), Math.min(idleTimeout, 60 * 1000));
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * URL of the MCP endpoint
+   */
+  url(): string {
+    const host = this.options.host.includes(':') ? `[${this.options.host}]` : this.options.host;
+    return `http://${host}:${this.options.port}${MCP_PATH}`;
+  }
+
+  /**
+   * Close every session and stop accepting connections
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close()));
+
+    const httpServer = this.httpServer;
+    if (!httpServer) return;
+    await new Promise<void>(resolve => {
+      httpServer.close(() => resolve());
+      httpServer.closeAllConnections();
+    });
+  }
+
+  /**
+   * Route a request to the health endpoint or the MCP endpoint
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+
+    if (path === HEALTH_PATH && (req.method === 'GET' || req.method === 'HEAD')) {
+      this.sendJson(res, 200, {
+        status: 'ok',
+        sessions: this.sessions.size,
+        uptimeSeconds: Math.round((Date.now() - this.startedAt) / 1000)
+      });
+      return;
+    }
+
+    if (path !== MCP_PATH) {
+      this.sendJson(res, 404, { error: `Not found; the MCP endpoint is ${MCP_PATH}` });
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.setHeader('WWW-Authenticate', 'Bearer realm="biostudies-mcp-server"');
+      this.sendJsonRpcError(res, 401, -32001, 'Missing or invalid bearer token');
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    const session = typeof sessionId === 'string' ? this.sessions.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      // GET opens the server-to-client event stream and DELETE ends the session
+      if (!session) {
+        this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Session not found' : 'Missing session ID');
+        return;
+      }
+      await this.forward(session, req, res);
+      return;
+    }
+
+    const body = await this.readJsonBody(req, res);
+    if (body === undefined) return;
+
+    if (session) {
+      await this.forward(session, req, res, body);
+      return;
+    }
+
+    if (sessionId) {
+      this.sendJsonRpcError(res, 404, -32000, 'Session not found');
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      this.sendJsonRpcError(res, 400, -32000, 'Missing session ID; the first request must be initialize');
+      return;
+    }
+
+    await this.startSession(req, res, body);
+  }
+
+  /**
+   * Create a transport and MCP server for a new client session and handle its initialize request
+   * On a loopback address the transport rejects unknown Host headers, so web pages cannot reach it through DNS rebinding;
+   * other addresses require a bearer token (see loadConfig)
+   */
+  private async startSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createMcpServer();
+    const allowedHosts = this.allowedHosts();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: sessionId => {
+        this.sessions.set(sessionId, session);
+      },
+      enableDnsRebindingProtection: allowedHosts !== undefined,
+      allowedHosts
+    });
+    const session: Session = { server, transport, lastActivity: Date.now(), openRequests: 0 };
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await this.forward(session, req, res, body);
+  }
+
+  /**
+   * Pass a request to a session's transport, tracking it until the response is finished
+   */
+  private async forward(session: Session, req: IncomingMessage, res: ServerResponse, body?: unknown): Promise<void> {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+    await session.transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Close sessions with no open requests and no activity within the idle timeout
+   */
+  private closeIdleSessions(idleTimeout: number): void {
+    const cutoff = Date.now() - idleTimeout;
+    this.sessions.forEach((session, sessionId) => {
+      if (session.openRequests > 0 || session.lastActivity > cutoff) return;
+      this.sessions.delete(sessionId);
+      session.server.close().catch(error => console.error(`Failed to close idle session ${sessionId}:`, error));
+    });
+  }
+
+  /**
+   * Host header values accepted on a loopback address; undefined on other addresses,
+   * where clients may use any name that resolves to the server
+   */
+  private allowedHosts(): string[] | undefined {
+    if (!isLoopbackHost(this.options.host)) return undefined;
+    const hosts = Array.from(new Set([this.options.host.toLowerCase(), ...LOOPBACK_HOSTS]))
+      .map(host => host.includes(':') ? `[${host}]` : host);
+    // Clients leave out the port when it is the default one
+    return [...hosts.map(host => `${host}:${this.options.port}`), ...hosts];
+  }
+
+  /**
+   * Check the bearer token when one is configured, in constant time
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.options.token) return true;
+
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match) return false;
+
+    const digest = (value: string) => createHash('sha256').update(value).digest();
+    return timingSafeEqual(digest(match[1].trim()), digest(this.options.token));
+  }
+
+  /**
+   * Read and parse a JSON request body, replying with an error and returning undefined if it is invalid
+   */
+  private async readJsonBody(req: IncomingMessage, res: ServerResponse): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > MAX_BODY_SIZE) {
+        this.sendJsonRpcError(res, 413, -32600, `Request body exceeds ${MAX_BODY_SIZE} bytes`);
+        return undefined;
+      }
+      chunks.push(chunk);
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      this.sendJsonRpcError(res, 400, -32700, 'Parse error: request body is not valid JSON');
+      return undefined;
+    }
+  }
+
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    this.sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null });
+  }
+
+  private sendJson(res: ServerResponse, status: number, body: object): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Local Files - Helpers for study files on local disk, shared by downloads and verification
+ */
+
+import { createHash } from 'node:crypto';
+import { createReadStream, promises as fs } from 'node:fs';
+import { join, posix } from 'node:path';
+
+/**
+ * Normalize a study file path for use under a local directory; undefined if it would escape it
+ */
+export function safeRelativePath(path: string): string | undefined {
+  const normalized = posix.normalize(path.replace(/\\/g, '/')).replace(/^\/+/, '');
+  if (!normalized || normalized === '.' || normalized.split('/').includes('..')) return undefined;
+  return normalized;
+}
+
+/**
+ * Size of a file, or undefined if it does not exist
+ */
+export async function fileSize(path: string): Promise<number | undefined> {
+  try {
+    return (await fs.stat(path)).size;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Hex MD5 digest of a file, read as a stream
+ */
+export async function fileMd5(path: string, signal?: AbortSignal): Promise<string> {
+  const hash = createHash('md5');
+  for await (const chunk of createReadStream(path, { signal })) {
+    hash.update(chunk);
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Relative paths ("/"-separated) of every regular file below a directory
+ */
+export async function listFiles(directory: string): Promise<string[]> {
+  const files: string[] = [];
+  const visit = async (relativeDir: string) => {
+    const entries = await fs.readdir(join(directory, relativeDir), { withFileTypes: true });
+    for (const entry of entries) {
+      const path = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+      if (entry.isDirectory()) {
+        await visit(path);
+      } else if (entry.isFile()) {
+        files.push(path);
+      }
+    }
+  };
+
+  await visit('');
+  return files.sort();
+}
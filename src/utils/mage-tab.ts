@@ -0,0 +1,454 @@
+/**
+ * MAGE-TAB Parser - Reads the IDF and SDRF files of ArrayExpress (E-MTAB, E-GEOD, ...) studies
+ * and derives the experimental design: sources, characteristics, factor values, protocols and
+ * the mapping from assays to data files
+ */
+
+import {
+  AssayDataFile,
+  DesignVariable,
+  ExperimentDesign,
+  MageTabAssay,
+  MageTabIdf,
+  MageTabProtocol,
+  MageTabSource,
+  SampleGroup,
+  SampleQuery,
+  SampleRecord,
+  SdrfTable
+} from '../types/biostudies.js';
+
+/**
+ * Kind of an SDRF column: a graph node (Source Name, Assay Name, Array Data File, ...),
+ * a bracketed attribute (Characteristics[organism], Factor Value[time], Comment[FASTQ_URI], ...)
+ * or a plain attribute of the preceding node (Protocol REF, Technology Type, Label, ...)
+ */
+interface SdrfColumn {
+  kind: 'node' | 'characteristic' | 'factor' | 'comment' | 'parameter' | 'unit' | 'attribute';
+  /** Normalized node or attribute name for nodes and plain attributes; the bracketed name otherwise */
+  name: string;
+  header: string;
+}
+
+const ASSAY_NODES = ['assayname', 'hybridizationname'];
+
+/**
+ * Nodes used to name an assay when the SDRF has no Assay Name or Hybridization Name column
+ */
+const ASSAY_FALLBACK_NODES = ['scanname', 'labeledextractname', 'extractname', 'samplename', 'sourcename'];
+
+const FILE_NODES = ['arraydatafile', 'derivedarraydatafile', 'arraydatamatrixfile', 'derivedarraydatamatrixfile', 'imagefile'];
+
+const OTHER_NODES = ['sourcename', 'samplename', 'extractname', 'labeledextractname', 'scanname', 'normalizationname'];
+
+/**
+ * Comment columns that point at data files, e.g. Comment[FASTQ_URI] or Comment[SUBMITTED_FILE_NAME]
+ */
+const FILE_COMMENT_PATTERN = /file|uri|url/i;
+
+const BRACKETED_COLUMNS: Array<[RegExp, SdrfColumn['kind']]> = [
+  [/^characteristics?$/, 'characteristic'],
+  [/^factorvalue$/, 'factor'],
+  [/^comment$/, 'comment'],
+  [/^parametervalue$/, 'parameter'],
+  [/^unit$/, 'unit']
+];
+
+/**
+ * Whether a file name follows the ArrayExpress IDF naming convention
+ */
+export function isIdfFile(name: string): boolean {
+  return /\.idf(\.txt|\.tsv)?$/i.test(name);
+}
+
+/**
+ * Whether a file name follows the ArrayExpress SDRF naming convention
+ */
+export function isSdrfFile(name: string): boolean {
+  return /\.sdrf(\.txt|\.tsv)?$/i.test(name);
+}
+
+/**
+ * Split MAGE-TAB text into rows of cells; comment lines and trailing empty cells are dropped
+ */
+export function parseMageTabRows(text: string): string[][] {
+  return text.replace(/^\uFEFF/, '').split(/\r?\n|\r/)
+    .filter(line => !line.startsWith('#'))
+    .map(line => {
+      const cells = line.split('\t').map(cell => {
+        const trimmed = cell.trim();
+        return trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')
+          ? trimmed.slice(1, -1).replace(/""/g, '"').trim()
+          : trimmed;
+      });
+      while (cells.length && !cells[cells.length - 1]) cells.pop();
+      return cells;
+    });
+}
+
+/**
+ * Parse an IDF: each row is a tag followed by one value per item (protocol, person, ...)
+ * Tags are matched ignoring case and spacing, as the MAGE-TAB specification allows
+ */
+export function parseIdf(text: string): MageTabIdf {
+  const rows = new Map<string, string[]>();
+  const fields: Record<string, string[]> = {};
+  const comments: Record<string, string> = {};
+
+  parseMageTabRows(text).forEach(([tag, ...values]) => {
+    if (!tag) return;
+    const comment = tag.match(/^comment\s*\[(.*)\]$/i);
+    if (comment) {
+      comments[comment[1].trim()] = values.filter(Boolean).join('; ');
+      return;
+    }
+    const key = normalizeTag(tag);
+    if (!rows.has(key)) rows.set(key, values);
+    fields[tag] = values;
+  });
+
+  const values = (tag: string) => rows.get(tag) || [];
+  const first = (tag: string) => values(tag).find(Boolean);
+  const list = (value?: string) => value ? value.split(/\s*;\s*/).filter(Boolean) : undefined;
+  const count = (...tags: string[]) => Math.max(0, ...tags.map(tag => values(tag).length));
+
+  const protocols: MageTabProtocol[] = [];
+  for (let i = 0; i < count('protocolname'); i++) {
+    const name = values('protocolname')[i];
+    if (!name) continue;
+    protocols.push(compact({
+      name,
+      type: values('protocoltype')[i],
+      description: values('protocoldescription')[i],
+      parameters: list(values('protocolparameters')[i]),
+      hardware: values('protocolhardware')[i],
+      software: values('protocolsoftware')[i]
+    }));
+  }
+
+  const persons = [];
+  for (let i = 0; i < count('personlastname', 'personfirstname'); i++) {
+    const name = [values('personfirstname')[i], values('personmidinitials')[i], values('personlastname')[i]]
+      .filter(Boolean).join(' ');
+    if (!name) continue;
+    persons.push(compact({
+      name,
+      email: values('personemail')[i],
+      affiliation: values('personaffiliation')[i],
+      roles: list(values('personroles')[i])
+    }));
+  }
+
+  const publications = [];
+  for (let i = 0; i < count('publicationtitle', 'pubmedid', 'publicationdoi'); i++) {
+    const publication = compact({
+      title: values('publicationtitle')[i],
+      authors: values('publicationauthorlist')[i],
+      doi: values('publicationdoi')[i],
+      pubmedId: values('pubmedid')[i],
+      status: values('publicationstatus')[i]
+    });
+    if (Object.keys(publication).length) publications.push(publication);
+  }
+
+  const mapped = [
+    'investigationtitle', 'experimentdescription', 'experimentaldesign', 'experimentalfactorname',
+    'experimentalfactortype', 'publicreleasedate', 'sdrffile'
+  ];
+  Object.keys(fields).forEach(tag => {
+    const key = normalizeTag(tag);
+    if (mapped.includes(key) || /^(protocol|person|publication|pubmed)/.test(key)) delete fields[tag];
+  });
+
+  return {
+    title: first('investigationtitle'),
+    description: first('experimentdescription'),
+    experimentalDesigns: values('experimentaldesign').filter(Boolean),
+    experimentalFactors: values('experimentalfactorname')
+      .map((name, i) => compact({ name, type: values('experimentalfactortype')[i] }) as { name: string; type?: string })
+      .filter(factor => factor.name),
+    protocols,
+    persons,
+    publications,
+    publicReleaseDate: first('publicreleasedate'),
+    sdrfFiles: values('sdrffile').filter(Boolean),
+    comments,
+    fields
+  };
+}
+
+/**
+ * Parse an SDRF: a header row followed by one row per path through the sample graph
+ */
+export function parseSdrf(file: string, text: string): SdrfTable {
+  const [headers = [], ...rows] = parseMageTabRows(text).filter(row => row.some(Boolean));
+  return {
+    file,
+    headers,
+    rows: rows.map(row => headers.map((_, i) => row[i] ?? ''))
+  };
+}
+
+/**
+ * Derive the experimental design from an IDF and the SDRF tables it refers to
+ * Sources and assays spread over several rows (e.g. paired-end reads) are merged by name
+ */
+export function buildExperimentDesign(
+  accno: string,
+  idf: MageTabIdf | undefined,
+  idfFile: string | undefined,
+  tables: SdrfTable[]
+): ExperimentDesign {
+  const sources = new Map<string, MageTabSource>();
+  const assays = new Map<string, MageTabAssay>();
+  const characteristics = new Map<string, Set<string>>();
+  const factors = new Map<string, Set<string>>();
+
+  // Factors declared in the IDF come first, even when no SDRF column uses them
+  idf?.experimentalFactors.forEach(factor => factors.set(factor.name, new Set()));
+
+  tables.forEach(table => {
+    const columns = table.headers.map(classifyColumn);
+    table.rows.forEach(row => {
+      const record = readRow(columns, row);
+      const sourceName = record.nodes.sourcename ?? record.nodes.samplename;
+
+      Object.entries(record.characteristics).forEach(([name, value]) => addValue(characteristics, name, value));
+      Object.entries(record.factorValues).forEach(([name, value]) => addValue(factors, name, value));
+
+      if (sourceName) {
+        const source = sources.get(sourceName) ?? { name: sourceName, characteristics: {}, factorValues: {} };
+        source.characteristics = { ...record.characteristics, ...source.characteristics };
+        source.factorValues = { ...record.factorValues, ...source.factorValues };
+        sources.set(sourceName, source);
+      }
+
+      const assayName = [...ASSAY_NODES, ...ASSAY_FALLBACK_NODES].map(node => record.nodes[node]).find(Boolean);
+      if (!assayName) return;
+      const assay = assays.get(assayName) ?? { name: assayName, sources: [], factorValues: {}, protocols: [], files: [] };
+      if (sourceName && !assay.sources.includes(sourceName)) assay.sources.push(sourceName);
+      assay.factorValues = { ...record.factorValues, ...assay.factorValues };
+      record.protocols.forEach(protocol => {
+        if (!assay.protocols.includes(protocol)) assay.protocols.push(protocol);
+      });
+      record.files.forEach(file => {
+        if (!assay.files.some(existing => existing.column === file.column && existing.name === file.name)) {
+          assay.files.push(file);
+        }
+      });
+      assay.technologyType ??= record.attributes.technologytype;
+      assay.label ??= record.attributes.label;
+      assays.set(assayName, assay);
+    });
+  });
+
+  const variables = (map: Map<string, Set<string>>): DesignVariable[] =>
+    Array.from(map.entries()).map(([name, values]) => ({ name, values: Array.from(values) }));
+
+  return {
+    accno,
+    idfFile,
+    sdrfFiles: tables.map(table => table.file),
+    title: idf?.title,
+    description: idf?.description,
+    experimentalDesigns: idf?.experimentalDesigns || [],
+    protocols: idf?.protocols || [],
+    characteristics: variables(characteristics),
+    factors: variables(factors),
+    sources: Array.from(sources.values()),
+    assays: Array.from(assays.values()),
+    sampleCount: sources.size,
+    assayCount: assays.size
+  };
+}
+
+/**
+ * Samples of an experiment joined with the assays that measured them and their raw and processed files
+ */
+export function sampleRecords(design: ExperimentDesign): SampleRecord[] {
+  return design.sources.map(source => {
+    const assays = design.assays.filter(assay => assay.sources.includes(source.name));
+    const files = assays.flatMap(assay => assay.files);
+    const distinct = (kind: AssayDataFile['kind']) =>
+      Array.from(new Set(files.filter(file => file.kind === kind).map(file => file.name)));
+
+    return {
+      name: source.name,
+      characteristics: source.characteristics,
+      factorValues: Object.assign({}, ...assays.map(assay => assay.factorValues), source.factorValues),
+      assays: assays.map(assay => assay.name),
+      rawFiles: distinct('raw'),
+      processedFiles: distinct('processed')
+    };
+  });
+}
+
+/**
+ * Filter the samples of an experiment and optionally group them
+ * Columns are named as in the SDRF brackets ("organism part") or with their prefix ("Factor Value[diet]");
+ * names and values are compared ignoring case. Unknown columns are rejected with the available ones listed
+ */
+export function querySamples(
+  design: ExperimentDesign,
+  query: SampleQuery
+): { samples: SampleRecord[]; groups?: SampleGroup[]; total: number } {
+  const records = sampleRecords(design);
+  const filters = Object.entries(query.filters || {}).map(([column, values]) => ({
+    column: resolveColumn(design, column),
+    values: values.map(value => value.trim().toLowerCase())
+  }));
+  const samples = records.filter(record => filters.every(filter =>
+    filter.values.includes((sampleValue(record, filter.column) ?? '').toLowerCase())
+  ));
+
+  if (!query.groupBy?.length) {
+    return { samples, total: records.length };
+  }
+
+  const columns = query.groupBy.map(column => resolveColumn(design, column));
+  const groups = new Map<string, SampleGroup>();
+  samples.forEach(sample => {
+    const values: Record<string, string> = {};
+    columns.forEach(column => { values[column.name] = sampleValue(sample, column) ?? '(not specified)'; });
+    const key = JSON.stringify(Object.values(values));
+    const group = groups.get(key) ?? { values, sampleCount: 0, assayCount: 0, samples: [] };
+    group.sampleCount++;
+    group.assayCount += sample.assays.length;
+    group.samples.push(sample.name);
+    groups.set(key, group);
+  });
+
+  return {
+    samples,
+    groups: Array.from(groups.values()).sort((a, b) => b.sampleCount - a.sampleCount),
+    total: records.length
+  };
+}
+
+interface ColumnRef {
+  name: string;
+  kind: 'characteristic' | 'factor' | 'any';
+}
+
+/**
+ * Find the characteristic or factor a query names
+ */
+function resolveColumn(design: ExperimentDesign, column: string): ColumnRef {
+  const prefixed = column.match(/^\s*(characteristics?|factor\s*value)\s*\[(.*)\]\s*$/i);
+  const kind: ColumnRef['kind'] = prefixed ? (/^char/i.test(prefixed[1]) ? 'characteristic' : 'factor') : 'any';
+  const wanted = normalizeColumnName(prefixed ? prefixed[2] : column);
+
+  const find = (variables: DesignVariable[]) => variables.find(variable => normalizeColumnName(variable.name) === wanted)?.name;
+  const name = (kind !== 'factor' ? find(design.characteristics) : undefined)
+    ?? (kind !== 'characteristic' ? find(design.factors) : undefined);
+  if (!name) {
+    const available = [...design.characteristics, ...design.factors].map(variable => variable.name);
+    throw new Error(`Unknown sample column "${column}". Available: ${Array.from(new Set(available)).join(', ') || 'none'}`);
+  }
+  return { name, kind };
+}
+
+function sampleValue(sample: SampleRecord, column: ColumnRef): string | undefined {
+  if (column.kind === 'characteristic') return sample.characteristics[column.name];
+  if (column.kind === 'factor') return sample.factorValues[column.name];
+  return sample.characteristics[column.name] ?? sample.factorValues[column.name];
+}
+
+function normalizeColumnName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s_]+/g, ' ');
+}
+
+/**
+ * Classify an SDRF column header, e.g. "Characteristics [organism]" or "Hybridization Name"
+ */
+export function classifyColumn(header: string): SdrfColumn {
+  const bracketed = header.match(/^([^[]+)\[(.*)\]\s*$/);
+  if (bracketed) {
+    const prefix = normalizeTag(bracketed[1]);
+    const kind = BRACKETED_COLUMNS.find(([pattern]) => pattern.test(prefix))?.[1] ?? 'attribute';
+    return { kind, name: kind === 'attribute' ? prefix : bracketed[2].trim(), header };
+  }
+
+  const name = normalizeTag(header);
+  const isNode = ASSAY_NODES.includes(name) || FILE_NODES.includes(name) || OTHER_NODES.includes(name);
+  return { kind: isNode ? 'node' : 'attribute', name, header };
+}
+
+/**
+ * Values of one SDRF row, grouped by column kind; units are appended to the value they qualify
+ */
+function readRow(columns: SdrfColumn[], row: string[]) {
+  const nodes: Record<string, string> = {};
+  const attributes: Record<string, string> = {};
+  const characteristics: Record<string, string> = {};
+  const factorValues: Record<string, string> = {};
+  const protocols: string[] = [];
+  const files: AssayDataFile[] = [];
+  let qualified: { target: Record<string, string>; name: string } | undefined;
+
+  columns.forEach((column, i) => {
+    const value = row[i];
+    if (column.kind === 'unit') {
+      if (value && qualified?.target[qualified.name]) qualified.target[qualified.name] += ` ${value}`;
+      return;
+    }
+    if (column.kind !== 'attribute' || column.name !== 'termsourceref' && column.name !== 'termaccessionnumber') {
+      qualified = undefined;
+    }
+    if (!value) return;
+
+    switch (column.kind) {
+      case 'node':
+        if (FILE_NODES.includes(column.name)) {
+          files.push(dataFile(column, value));
+        } else {
+          nodes[column.name] ??= value;
+        }
+        break;
+      case 'characteristic':
+        characteristics[column.name] ??= value;
+        qualified = { target: characteristics, name: column.name };
+        break;
+      case 'factor':
+        factorValues[column.name] ??= value;
+        qualified = { target: factorValues, name: column.name };
+        break;
+      case 'comment':
+        if (FILE_COMMENT_PATTERN.test(column.name)) files.push(dataFile(column, value));
+        break;
+      case 'attribute':
+        if (column.name === 'protocolref') {
+          if (!protocols.includes(value)) protocols.push(value);
+        } else {
+          attributes[column.name] ??= value;
+        }
+        break;
+    }
+  });
+
+  return { nodes, attributes, characteristics, factorValues, protocols, files };
+}
+
+/**
+ * Data file named in an SDRF cell; "Derived Array Data File" and "Comment[Derived ... file]" columns hold processed data
+ */
+function dataFile(column: SdrfColumn, name: string): AssayDataFile {
+  return { column: column.header, name, kind: /derived/i.test(column.header) ? 'processed' : 'raw' };
+}
+
+function addValue(map: Map<string, Set<string>>, name: string, value: string): void {
+  const values = map.get(name) ?? new Set<string>();
+  values.add(value);
+  map.set(name, values);
+}
+
+/**
+ * MAGE-TAB tags are case and whitespace insensitive: "Investigation Title" matches "investigationtitle"
+ */
+function normalizeTag(tag: string): string {
+  return tag.toLowerCase().replace(/[\s_]+/g, '');
+}
+
+function compact<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined && field !== '')) as T;
+}
@@ -0,0 +1,307 @@
+/**
+ * Matrix Preview - Summarizes processed data matrices (expression tables and similar) from the
+ * first bytes of the file, so their layout and value scale can be checked before downloading them
+ */
+
+import { Readable } from 'node:stream';
+import { ReadableStream } from 'node:stream/web';
+import { createGunzip } from 'node:zlib';
+import {
+  ExperimentDesign,
+  FileInfo,
+  MatrixCandidate,
+  MatrixColumn,
+  MatrixColumnStats,
+  MatrixValueScale
+} from '../types/biostudies.js';
+import { isIdfFile, isSdrfFile } from './mage-tab.js';
+
+export interface MatrixScanOptions {
+  name: string;
+  size?: number;
+  /** Stop after reading this many bytes of the file (compressed bytes for .gz files) */
+  maxBytes: number;
+  previewRows: number;
+  /** Give up when no data arrives for this many milliseconds */
+  idleTimeout: number;
+}
+
+export interface MatrixScan {
+  compressed: boolean;
+  delimiter: string;
+  rowCount: number;
+  estimatedRows?: number;
+  columnCount: number;
+  columns: MatrixColumn[];
+  columnsTruncated: boolean;
+  preview: string[][];
+  valueScale: MatrixValueScale;
+  bytesScanned: number;
+  complete: boolean;
+}
+
+export const DEFAULT_MATRIX_SCAN_BYTES = 16 * 1024 * 1024;
+
+/**
+ * Columns beyond this are counted but get no statistics (single-cell matrices can have thousands)
+ */
+export const MAX_MATRIX_COLUMNS = 200;
+
+const TABULAR_FILE_PATTERN = /\.(txt|tsv|tab|csv|dat)(\.gz)?$/i;
+
+const ARCHIVE_FILE_PATTERN = /\.zip$/i;
+
+/**
+ * File names that suggest processed data rather than raw data or documentation
+ */
+const MATRIX_NAME_PATTERN = /matrix|counts?\b|count[s_.-]|expression|expr\b|processed|normali[sz]ed|fpkm|rpkm|tpm|cpm|intensit|rma|mas5|signal/i;
+
+const MISSING_VALUES = new Set(['', 'na', 'nan', 'null', 'n/a', '-', 'none', 'inf', '-inf']);
+
+/**
+ * MAGE-TAB data matrices start with a Hybridization REF (or Assay REF) row followed by a row of quantitation types
+ */
+const MAGE_TAB_MATRIX_HEADER = /^(hybridi[sz]ation|assay|scan|normali[sz]ation)\s*ref$/i;
+
+/**
+ * Study files that look like processed data matrices: files named in the SDRF's derived data columns first,
+ * then tabular files whose names suggest processed data
+ */
+export function findMatrixCandidates(files: FileInfo[], processedNames: string[]): MatrixCandidate[] {
+  const fromSdrf = new Set(processedNames.map(name => name.split('/').pop()!.toLowerCase()));
+  const candidates = files
+    .filter(file => !isIdfFile(file.name) && !isSdrfFile(file.name))
+    .filter(file => TABULAR_FILE_PATTERN.test(file.name) || ARCHIVE_FILE_PATTERN.test(file.name))
+    .map((file): MatrixCandidate | undefined => {
+      const source = fromSdrf.has(file.name.toLowerCase())
+        ? 'sdrf'
+        : MATRIX_NAME_PATTERN.test(file.name) ? 'file_name' : undefined;
+      if (!source) return undefined;
+      return { path: file.path, name: file.name, size: file.size, source, previewable: !ARCHIVE_FILE_PATTERN.test(file.name) };
+    })
+    .filter((candidate): candidate is MatrixCandidate => candidate !== undefined);
+
+  const rank = (candidate: MatrixCandidate) => (candidate.previewable ? 0 : 2) + (candidate.source === 'sdrf' ? 0 : 1);
+  return candidates.sort((a, b) => rank(a) - rank(b));
+}
+
+/**
+ * Read a matrix from a response body up to maxBytes and summarize it
+ * The body is always cancelled afterwards, so unread data is never downloaded
+ */
+export async function scanMatrix(body: ReadableStream<Uint8Array>, options: MatrixScanOptions): Promise<MatrixScan> {
+  const compressed = /\.gz$/i.test(options.name);
+  const reader = body.getReader();
+  let bytesScanned = 0;
+  let truncated = false;
+  let stalled = false;
+
+  const timer = setTimeout(() => {
+    stalled = true;
+    reader.cancel().catch(() => undefined);
+  }, options.idleTimeout);
+
+  async function* chunks(): AsyncGenerator<Uint8Array> {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      timer.refresh();
+      bytesScanned += value.length;
+      if (bytesScanned > options.maxBytes) {
+        truncated = true;
+        const keep = value.length - (bytesScanned - options.maxBytes);
+        bytesScanned = options.maxBytes;
+        if (keep > 0) yield value.subarray(0, keep);
+        return;
+      }
+      yield value;
+    }
+  }
+
+  const table = new MatrixAccumulator(options.previewRows, /\.csv(\.gz)?$/i.test(options.name) ? ',' : undefined);
+  const decoder = new TextDecoder();
+  let pending = '';
+  let source: AsyncIterable<Uint8Array> = chunks();
+  if (compressed) {
+    const input = Readable.from(source);
+    const gunzip = createGunzip();
+    input.on('error', error => gunzip.destroy(error));
+    source = input.pipe(gunzip);
+  }
+
+  try {
+    for await (const chunk of source) {
+      pending += decoder.decode(chunk, { stream: true });
+      const lines = pending.split(/\r?\n/);
+      pending = lines.pop()!;
+      lines.forEach(line => table.addLine(line));
+    }
+    // A truncated scan ends mid-line; only a complete file's last line is whole
+    if (!truncated && !stalled) table.addLine(pending + decoder.decode());
+  } catch (error) {
+    // Cutting a gzip stream short makes the decompressor fail at the end of the scanned bytes
+    if (!stalled && !(truncated && compressed)) throw error;
+  } finally {
+    clearTimeout(timer);
+    await reader.cancel().catch(() => undefined);
+  }
+
+  if (stalled) {
+    throw new Error(`No data received for ${options.idleTimeout} ms`);
+  }
+
+  const complete = !truncated;
+  return {
+    compressed,
+    delimiter: table.delimiter ?? '\t',
+    rowCount: table.rowCount,
+    estimatedRows: !complete && options.size && bytesScanned
+      ? Math.round(table.rowCount * options.size / bytesScanned)
+      : undefined,
+    columnCount: table.columnCount(),
+    columns: table.columns(),
+    columnsTruncated: table.columnCount() > MAX_MATRIX_COLUMNS,
+    preview: table.preview,
+    valueScale: table.valueScale(),
+    bytesScanned,
+    complete
+  };
+}
+
+/**
+ * Match matrix columns to SDRF assays and sources by name, or by the raw data file an assay produced
+ * Returns the number of matched columns
+ */
+export function matchColumnsToDesign(columns: MatrixColumn[], design: ExperimentDesign): number {
+  const byName = new Map<string, { assay?: string; source?: string }>();
+  const add = (key: string, match: { assay?: string; source?: string }) => {
+    const normalized = key.trim().toLowerCase();
+    if (normalized && !byName.has(normalized)) byName.set(normalized, match);
+  };
+
+  design.assays.forEach(assay => add(assay.name, { assay: assay.name, source: assay.sources[0] }));
+  design.sources.forEach(source => {
+    const assay = design.assays.find(candidate => candidate.sources.includes(source.name));
+    add(source.name, { assay: assay?.name, source: source.name });
+  });
+  design.assays.forEach(assay => assay.files.filter(file => file.kind === 'raw').forEach(file => {
+    const base = file.name.split('/').pop()!;
+    add(base, { assay: assay.name, source: assay.sources[0] });
+    add(base.replace(/\.(cel|gpr|txt|fastq|fq)(\.gz)?$/i, ''), { assay: assay.name, source: assay.sources[0] });
+  }));
+
+  let matched = 0;
+  columns.forEach(column => {
+    const match = byName.get(column.header.trim().toLowerCase());
+    if (!match || column.role !== 'value') return;
+    column.assay = match.assay;
+    column.source = match.source;
+    matched++;
+  });
+  return matched;
+}
+
+/**
+ * Collects the header, preview rows and running column statistics of a delimited table
+ */
+class MatrixAccumulator {
+  delimiter?: string;
+  rowCount = 0;
+  readonly preview: string[][] = [];
+  private headers?: string[];
+  private quantitationTypes?: string[];
+  private expectQuantitationTypes = false;
+  private widest = 0;
+  private stats: Array<MatrixColumnStats & { sum: number }> = [];
+
+  constructor(private readonly previewRows: number, delimiter?: string) {
+    this.delimiter = delimiter;
+  }
+
+  addLine(line: string): void {
+    if (!line.trim() || line.startsWith('#')) return;
+    this.delimiter ??= line.includes('\t') ? '\t' : line.includes(',') ? ',' : '\t';
+    const cells = line.split(this.delimiter).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+    if (!this.headers) {
+      this.headers = cells;
+      this.expectQuantitationTypes = MAGE_TAB_MATRIX_HEADER.test(cells[0] || '');
+      return;
+    }
+    if (this.expectQuantitationTypes) {
+      this.expectQuantitationTypes = false;
+      this.quantitationTypes = cells;
+      return;
+    }
+    // Tables written with row names but no header for them (as R does) have one header cell fewer
+    if (this.rowCount === 0 && cells.length === this.headers.length + 1) {
+      this.headers = ['', ...this.headers];
+      this.quantitationTypes = this.quantitationTypes && ['', ...this.quantitationTypes];
+    }
+
+    this.rowCount++;
+    this.widest = Math.max(this.widest, cells.length);
+    if (this.preview.length < this.previewRows) this.preview.push(cells);
+    cells.slice(0, MAX_MATRIX_COLUMNS).forEach((cell, i) => this.addValue(i, cell));
+  }
+
+  columnCount(): number {
+    return Math.max(this.headers?.length ?? 0, this.widest);
+  }
+
+  columns(): MatrixColumn[] {
+    return Array.from({ length: Math.min(this.columnCount(), MAX_MATRIX_COLUMNS) }, (_, index) => {
+      const { sum, ...stats } = this.stats[index] ?? emptyStats();
+      const header = this.headers?.[index] ?? '';
+      return {
+        index,
+        header,
+        quantitationType: this.quantitationTypes?.[index] || undefined,
+        // Identifier columns hold text; data columns are numeric apart from missing values
+        role: stats.values > 0 && stats.numeric / stats.values >= 0.9 ? 'value' : 'label',
+        stats: {
+          ...stats,
+          mean: stats.numeric ? sum / stats.numeric : undefined
+        }
+      };
+    });
+  }
+
+  /**
+   * Judge the scale of the data columns together: whole non-negative numbers are counts,
+   * large positive values linear (normalized counts or raw intensities) and small ones log-transformed
+   */
+  valueScale(): MatrixValueScale {
+    const values = this.columns().filter(column => column.role === 'value' && column.stats.numeric > 0);
+    if (!values.length) return 'non_numeric';
+
+    const min = Math.min(...values.map(column => column.stats.min!));
+    const max = Math.max(...values.map(column => column.stats.max!));
+    if (values.every(column => column.stats.integerOnly) && min >= 0) return 'integer_counts';
+    if (min >= 0 && max > 100) return 'linear';
+    if (max <= 30 && min >= -30) return 'log';
+    return 'unknown';
+  }
+
+  private addValue(index: number, cell: string): void {
+    const stats = this.stats[index] ??= emptyStats();
+    if (MISSING_VALUES.has(cell.toLowerCase())) {
+      stats.missing++;
+      return;
+    }
+    stats.values++;
+
+    const value = Number(cell);
+    if (!Number.isFinite(value)) return;
+    stats.numeric++;
+    stats.sum += value;
+    stats.min = stats.min === undefined ? value : Math.min(stats.min, value);
+    stats.max = stats.max === undefined ? value : Math.max(stats.max, value);
+    if (!Number.isInteger(value)) stats.integerOnly = false;
+    if (value === 0) stats.zeros++;
+  }
+}
+
+function emptyStats(): MatrixColumnStats & { sum: number } {
+  return { values: 0, numeric: 0, missing: 0, integerOnly: true, zeros: 0, sum: 0 };
+}
@@ -0,0 +1,309 @@
+/**
+ * Metadata Export - Converts normalized study details into schema.org Dataset JSON-LD
+ * and RO-Crate 1.1 metadata (ro-crate-metadata.json)
+ */
+
+import {
+  Attribute,
+  Author,
+  FileInfo,
+  Funding,
+  Link,
+  Organization,
+  Publication,
+  StudyDetails
+} from '../types/biostudies.js';
+import { findAttribute } from './section-walker.js';
+
+export type ExportFormat = 'schema_org' | 'ro_crate';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['schema_org', 'ro_crate'];
+
+export const EXPORT_FILENAMES: Record<ExportFormat, string> = {
+  schema_org: 'dataset.jsonld',
+  ro_crate: 'ro-crate-metadata.json'
+};
+
+/**
+ * Where the study and its files can be found on the web
+ */
+export interface ExportUrls {
+  landingPage: string;
+  fileUrl: (path: string) => string;
+}
+
+type JsonLd = Record<string, any>;
+
+const SCHEMA_ORG_CONTEXT = 'https://schema.org';
+const RO_CRATE_CONTEXT = 'https://w3id.org/ro/crate/1.1/context';
+const RO_CRATE_SPEC = 'https://w3id.org/ro/crate/1.1';
+
+/**
+ * Root and section attributes already mapped to dedicated properties, left out of variableMeasured
+ */
+const MAPPED_ATTRIBUTES = [
+  'title', 'description', 'abstract', 'releasedate', 'release date', 'attachto',
+  'keyword', 'keywords', 'license', 'licence', 'doi'
+];
+
+/**
+ * Stand-alone schema.org Dataset document with creators, publications, funding and files nested inline
+ */
+export function toSchemaOrgDataset(study: StudyDetails, urls: ExportUrls): JsonLd {
+  const organizations = organizationIds(study);
+
+  return compact({
+    '@context': SCHEMA_ORG_CONTEXT,
+    '@id': urls.landingPage,
+    ...datasetProperties(study, urls),
+    creator: study.authors?.map((author, index) => compact({
+      ...personEntity(author, index),
+      affiliation: affiliationsOf(author).map(org => organizationEntity(org, organizations))
+    })),
+    citation: study.publications?.map(publicationEntity),
+    funding: study.funding?.map(fundingEntity),
+    isBasedOn: study.links?.map(linkEntity),
+    hasPart: study.files?.map(file => fileEntity(file, urls, false))
+  });
+}
+
+/**
+ * RO-Crate metadata: a flattened @graph whose root dataset references creators, publications and files by @id
+ * File @ids are relative to the study directory, matching the layout of downloaded study files
+ */
+export function toRoCrateMetadata(study: StudyDetails, urls: ExportUrls): JsonLd {
+  const organizations = organizationIds(study);
+  const persons = (study.authors || []).map((author, index) => compact({
+    ...personEntity(author, index),
+    affiliation: affiliationsOf(author).map(org => ({ '@id': organizationEntity(org, organizations)['@id'] }))
+  }));
+  const publications = (study.publications || []).map(publicationEntity);
+  const grants = (study.funding || []).map(fundingEntity);
+  const links = (study.links || []).map(linkEntity);
+  const files = (study.files || []).map(file => fileEntity(file, urls, true));
+  const reference = (entities: JsonLd[]) => entities.length ? entities.map(entity => ({ '@id': entity['@id'] })) : undefined;
+
+  // Nested entities of the dataset become graph entities of their own, as RO-Crate expects a flat graph
+  const { includedInDataCatalog: catalog, variableMeasured, ...properties } = datasetProperties(study, urls);
+  const propertyValues: JsonLd[] = (variableMeasured || []).map((value: JsonLd, index: number) => ({
+    '@id': `#property-${index + 1}`,
+    ...value
+  }));
+
+  const root = compact({
+    '@id': './',
+    ...properties,
+    includedInDataCatalog: { '@id': catalog['@id'] },
+    variableMeasured: reference(propertyValues),
+    creator: reference(persons),
+    citation: reference(publications),
+    funding: reference(grants),
+    isBasedOn: reference(links),
+    hasPart: reference(files)
+  });
+
+  // Funders are nested in grants above; flatten them into the graph as well
+  const funders = new Map<string, JsonLd>();
+  grants.forEach(grant => {
+    funders.set(grant.funder['@id'], grant.funder);
+    grant.funder = { '@id': grant.funder['@id'] };
+  });
+
+  return {
+    '@context': RO_CRATE_CONTEXT,
+    '@graph': [
+      {
+        '@id': 'ro-crate-metadata.json',
+        '@type': 'CreativeWork',
+        conformsTo: { '@id': RO_CRATE_SPEC },
+        about: { '@id': './' }
+      },
+      root,
+      catalog,
+      ...propertyValues,
+      ...persons,
+      ...Array.from(organizations.values()).map(({ entity }) => entity),
+      ...publications,
+      ...grants,
+      ...funders.values(),
+      ...links,
+      ...files
+    ]
+  };
+}
+
+/**
+ * Properties of the study itself, shared by both formats
+ */
+function datasetProperties(study: StudyDetails, urls: ExportUrls): JsonLd {
+  const attributes = [...(study.attributes || []), ...(study.section?.attributes || [])];
+  const doi = findAttribute(attributes, 'DOI');
+  const license = findAttribute(attributes, 'License') ?? findAttribute(attributes, 'Licence');
+
+  return compact({
+    '@type': 'Dataset',
+    identifier: [study.accno, doi && doiUrl(doi)].filter(Boolean),
+    name: study.title || study.accno,
+    description: study.description,
+    url: urls.landingPage,
+    datePublished: study.releaseDate,
+    dateModified: study.modifyDate,
+    keywords: study.tags?.length ? study.tags.join(', ') : undefined,
+    license: license && (isUrl(license) ? { '@id': license } : license),
+    includedInDataCatalog: {
+      '@id': 'https://www.ebi.ac.uk/biostudies/',
+      '@type': 'DataCatalog',
+      name: study.collection ? `BioStudies ${study.collection}` : 'BioStudies',
+      url: 'https://www.ebi.ac.uk/biostudies/'
+    },
+    variableMeasured: propertyValues(attributes)
+  });
+}
+
+/**
+ * Descriptive attributes (organism, technique and similar) as PropertyValue entries
+ */
+function propertyValues(attributes: Attribute[]): JsonLd[] | undefined {
+  const values = attributes
+    .filter(attr => attr.name && attr.value && !MAPPED_ATTRIBUTES.includes(attr.name.toLowerCase()))
+    .map(attr => ({ '@type': 'PropertyValue', name: attr.name, value: attr.value }));
+  return values.length ? values : undefined;
+}
+
+function personEntity(author: Author, index: number): JsonLd {
+  return compact({
+    '@id': author.orcid ? `https://orcid.org/${author.orcid}` : `#person-${index + 1}`,
+    '@type': 'Person',
+    name: author.name,
+    email: author.email,
+    identifier: author.orcid ? `https://orcid.org/${author.orcid}` : undefined
+  });
+}
+
+/**
+ * Organization entities of every affiliation, keyed by accno or name so each is emitted once
+ */
+function organizationIds(study: StudyDetails): Map<string, { entity: JsonLd }> {
+  const organizations = new Map<string, { entity: JsonLd }>();
+  const add = (org: Organization) => {
+    const key = org.accno || org.name;
+    if (organizations.has(key)) return;
+    organizations.set(key, {
+      entity: compact({
+        '@id': org.ror ? rorUrl(org.ror) : `#organization-${organizations.size + 1}`,
+        '@type': 'Organization',
+        name: org.name,
+        address: org.address
+      })
+    });
+  };
+
+  study.organizations?.forEach(add);
+  study.authors?.forEach(author => affiliationsOf(author).forEach(add));
+  return organizations;
+}
+
+/**
+ * Affiliations of an author; authors without organization references may only carry an affiliation name
+ */
+function affiliationsOf(author: Author): Organization[] {
+  if (author.affiliations?.length) return author.affiliations;
+  return author.affiliation ? [{ name: author.affiliation }] : [];
+}
+
+function organizationEntity(org: Organization, organizations: Map<string, { entity: JsonLd }>): JsonLd {
+  return organizations.get(org.accno || org.name)!.entity;
+}
+
+function publicationEntity(publication: Publication, index: number): JsonLd {
+  const id = publication.doi
+    ? doiUrl(publication.doi)
+    : publication.pmid ? `https://pubmed.ncbi.nlm.nih.gov/${publication.pmid}/` : `#publication-${index + 1}`;
+
+  return compact({
+    '@id': id,
+    '@type': 'ScholarlyArticle',
+    name: publication.title,
+    author: publication.authors,
+    datePublished: publication.year,
+    identifier: [
+      publication.doi && doiUrl(publication.doi),
+      publication.pmid && `https://pubmed.ncbi.nlm.nih.gov/${publication.pmid}/`
+    ].filter(Boolean),
+    pagination: publication.pages,
+    volumeNumber: publication.volume,
+    issueNumber: publication.issue,
+    publisher: publication.journal
+  });
+}
+
+function fundingEntity(funding: Funding, index: number): JsonLd {
+  return compact({
+    '@id': `#grant-${index + 1}`,
+    '@type': 'Grant',
+    identifier: funding.grantId,
+    name: funding.grantId ? `${funding.agency} ${funding.grantId}` : funding.agency,
+    funder: {
+      '@id': `#funder-${slug(funding.agency)}`,
+      '@type': 'Organization',
+      name: funding.agency
+    }
+  });
+}
+
+/**
+ * External link; links given as database accessions rather than URLs get a local @id
+ */
+function linkEntity(link: Link, index: number): JsonLd {
+  const type = findAttribute(link.attributes, 'Type');
+  const description = findAttribute(link.attributes, 'Description');
+  return compact({
+    '@id': isUrl(link.url) ? link.url : `#link-${index + 1}`,
+    '@type': 'CreativeWork',
+    name: description || (type ? `${type} ${link.url}` : link.url),
+    identifier: link.url,
+    url: isUrl(link.url) ? link.url : undefined,
+    additionalType: type
+  });
+}
+
+/**
+ * File entity; RO-Crate identifies files by their path within the crate, schema.org by their download URL
+ */
+function fileEntity(file: FileInfo, urls: ExportUrls, relativeId: boolean): JsonLd {
+  const contentUrl = urls.fileUrl(file.path);
+  return compact({
+    '@id': relativeId ? encodeURI(file.path) : contentUrl,
+    '@type': relativeId ? 'File' : 'MediaObject',
+    name: file.name,
+    contentSize: file.size !== undefined ? String(file.size) : undefined,
+    encodingFormat: file.type && file.type !== 'file' ? file.type : undefined,
+    contentUrl,
+    description: findAttribute(file.attributes, 'Description')
+  });
+}
+
+function doiUrl(doi: string): string {
+  return isUrl(doi) ? doi : `https://doi.org/${doi.replace(/^doi:/i, '')}`;
+}
+
+function rorUrl(ror: string): string {
+  return isUrl(ror) ? ror : `https://ror.org/${ror}`;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function slug(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'unknown';
+}
+
+/**
+ * Drop undefined values and empty arrays so the documents only carry known properties
+ */
+function compact(entity: JsonLd): JsonLd {
+  return Object.fromEntries(Object.entries(entity).filter(([, value]) =>
+    value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0)
+  ));
+}
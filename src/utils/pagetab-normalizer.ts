@@ -0,0 +1,203 @@
+/**
+ * PageTab Normalizer - Converts raw PageTab submissions into resolved StudyDetails
+ * Resolves author affiliations against Organization subsections and extracts
+ * publications and funding from their subsections
+ */
+
+import {
+  Attribute,
+  Author,
+  Contact,
+  Funding,
+  Organization,
+  PageTabSubmission,
+  Publication,
+  Section,
+  StudyDetails,
+  StudySummary
+} from '../types/biostudies.js';
+import { collectSectionContents, findAttribute, walkSections } from './section-walker.js';
+
+const CONTACT_ROLES = ['contact', 'submitter', 'corresponding'];
+
+/**
+ * Convert a raw PageTab submission into a fully resolved StudyDetails object
+ */
+export function normalizeStudy(raw: PageTabSubmission): StudyDetails {
+  const rootAttributes = raw.attributes || [];
+  const sectionAttributes = raw.section?.attributes || [];
+  const attribute = (name: string) =>
+    findAttribute(rootAttributes, name) ?? findAttribute(sectionAttributes, name);
+
+  const sections = sectionsByType(raw.section);
+  const organizations = (sections.get('organization') || []).map(toOrganization);
+  const authors = (sections.get('author') || []).map(section => toAuthor(section, organizations));
+  const contents = collectSectionContents(raw.section);
+  const releaseDate = attribute('ReleaseDate') ?? attribute('Release Date');
+
+  return {
+    accno: raw.accno,
+    title: attribute('Title') || '',
+    description: findAttribute(sectionAttributes, 'Description') ?? findAttribute(sectionAttributes, 'Abstract'),
+    authors,
+    contacts: authors.filter(isContact).map(toContact),
+    organizations,
+    publications: (sections.get('publication') || []).map(toPublication),
+    funding: (sections.get('funding') || []).map(toFunding).filter((funding): funding is Funding => !!funding),
+    releaseDate,
+    collection: findAttribute(rootAttributes, 'AttachTo'),
+    type: raw.section?.type ?? undefined,
+    tags: attributeValues(sectionAttributes, ['Keyword', 'Keywords']),
+    attributes: rootAttributes,
+    section: raw.section,
+    links: contents.links,
+    files: contents.files,
+    isPublic: releaseDate ? new Date(releaseDate).getTime() <= Date.now() : undefined
+  };
+}
+
+/**
+ * Reduce normalized study details to the summary returned by batch operations
+ */
+export function summarizeStudy(study: StudyDetails): StudySummary {
+  return {
+    accno: study.accno,
+    title: study.title,
+    description: study.description,
+    releaseDate: study.releaseDate,
+    collection: study.collection,
+    type: study.type,
+    isPublic: study.isPublic,
+    authors: study.authors || [],
+    publications: study.publications || [],
+    funding: study.funding || [],
+    tags: study.tags || [],
+    fileCount: study.files?.length || 0,
+    totalFileSize: (study.files || []).reduce((sum, file) => sum + (file.size || 0), 0),
+    linkCount: study.links?.length || 0
+  };
+}
+
+/**
+ * Normalise an ORCID given as a bare identifier or an orcid.org URL
+ */
+export function normalizeOrcid(value?: string): string | undefined {
+  const match = value?.match(/(\d{4}-\d{4}-\d{4}-\d{3}[\dX])/i);
+  return match ? match[1].toUpperCase() : value || undefined;
+}
+
+/**
+ * Group every section in the tree by lower-cased type, treating "Organisation" as "Organization"
+ */
+function sectionsByType(root?: Section): Map<string, Section[]> {
+  const groups = new Map<string, Section[]>();
+  walkSections(root, section => {
+    const type = (section.type || '').toLowerCase().replace('organisation', 'organization');
+    if (!groups.has(type)) groups.set(type, []);
+    groups.get(type)!.push(section);
+  });
+  return groups;
+}
+
+/**
+ * Values of every attribute matching one of the given names (case-insensitive)
+ */
+function attributeValues(attributes: Attribute[] | undefined, names: string[]): string[] {
+  const wanted = names.map(name => name.toLowerCase());
+  return (attributes || [])
+    .filter(attr => wanted.includes(attr.name?.toLowerCase()))
+    .map(attr => attr.value)
+    .filter(Boolean);
+}
+
+/**
+ * Build an Organization from an Organization subsection
+ */
+function toOrganization(section: Section): Organization {
+  return {
+    accno: section.accno,
+    name: findAttribute(section.attributes, 'Name') || section.accno || 'Unknown organisation',
+    address: findAttribute(section.attributes, 'Address'),
+    ror: findAttribute(section.attributes, 'RORID') ?? findAttribute(section.attributes, 'ROR')
+  };
+}
+
+/**
+ * Resolve affiliation attributes: references point at an Organization accno, other values are names
+ */
+function toAuthor(section: Section, organizations: Organization[]): Author {
+  const affiliations = (section.attributes || [])
+    .filter(attr => attr.name?.toLowerCase() === 'affiliation' && attr.value)
+    .map(attr => {
+      const referenced = organizations.find(org => org.accno === attr.value);
+      if (referenced) return referenced;
+      return attr.reference ? { accno: attr.value, name: attr.value } : { name: attr.value };
+    });
+
+  const roles = attributeValues(section.attributes, ['Role'])
+    .flatMap(role => role.split(/\s*[,;]\s*/))
+    .filter(Boolean);
+
+  return {
+    name: findAttribute(section.attributes, 'Name') || 'Unknown author',
+    email: findAttribute(section.attributes, 'E-mail') ?? findAttribute(section.attributes, 'Email'),
+    affiliation: affiliations.length ? affiliations.map(org => org.name).join('; ') : undefined,
+    affiliations: affiliations.length ? affiliations : undefined,
+    orcid: normalizeOrcid(findAttribute(section.attributes, 'ORCID')),
+    roles: roles.length ? roles : undefined
+  };
+}
+
+/**
+ * Whether an author's roles mark them as a point of contact
+ */
+function isContact(author: Author): boolean {
+  return !!author.roles?.some(role => CONTACT_ROLES.some(contact => role.toLowerCase().includes(contact)));
+}
+
+/**
+ * Convert a contact author into a Contact entry
+ */
+function toContact(author: Author): Contact {
+  return {
+    name: author.name,
+    email: author.email,
+    affiliation: author.affiliation,
+    role: author.roles?.join(', ')
+  };
+}
+
+/**
+ * Build a Publication from a Publication subsection
+ */
+function toPublication(section: Section): Publication {
+  const attrs = section.attributes;
+  const pmid = findAttribute(attrs, 'Pubmed ID') ?? findAttribute(attrs, 'PMID')
+    ?? (section.accno && /^\d+$/.test(section.accno) ? section.accno : undefined);
+  const date = findAttribute(attrs, 'Year') ?? findAttribute(attrs, 'Publication date');
+
+  return {
+    title: findAttribute(attrs, 'Title'),
+    authors: findAttribute(attrs, 'Authors'),
+    journal: findAttribute(attrs, 'Journal'),
+    volume: findAttribute(attrs, 'Volume'),
+    issue: findAttribute(attrs, 'Issue'),
+    pages: findAttribute(attrs, 'Pages'),
+    year: date?.match(/\d{4}/)?.[0] ?? date,
+    doi: findAttribute(attrs, 'DOI')?.replace(/^https?:\/\/(dx\.)?doi\.org\//i, ''),
+    pmid
+  };
+}
+
+/**
+ * Build a Funding entry from a Funding subsection, skipping entries without an agency
+ */
+function toFunding(section: Section): Funding | undefined {
+  const agency = findAttribute(section.attributes, 'Agency') ?? findAttribute(section.attributes, 'Funder');
+  if (!agency) return undefined;
+
+  return {
+    agency,
+    grantId: findAttribute(section.attributes, 'grant_id') ?? findAttribute(section.attributes, 'Grant ID')
+  };
+}
@@ -0,0 +1,101 @@
+/**
+ * Request Scheduler - Shared concurrency limit and requests-per-second budget
+ * for all HTTP calls made to the BioStudies API
+ */
+
+import { abortError, sleep } from './cancellation.js';
+
+export interface SchedulerOptions {
+  concurrency: number;
+  requestsPerSecond: number;
+}
+
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  concurrency: 4,
+  requestsPerSecond: 5
+};
+
+export class RequestScheduler {
+  private readonly options: SchedulerOptions;
+  private active = 0;
+  private readonly waiting: Array<() => void> = [];
+  private nextStart = 0;
+
+  constructor(options: Partial<SchedulerOptions> = {}) {
+    this.options = { ...DEFAULT_SCHEDULER_OPTIONS, ...options };
+  }
+
+  /**
+   * Run a task once a concurrency slot is free and the rate budget allows another request
+   * Aborting the signal removes a queued task, or rejects while it waits for its rate slot
+   */
+  async schedule<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      await this.pace(signal);
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Number of tasks running or waiting for a slot
+   */
+  pending(): number {
+    return this.active + this.waiting.length;
+  }
+
+  /**
+   * Take a concurrency slot, waiting in FIFO order when all are busy
+   */
+  private acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError(signal));
+    if (this.active < this.options.concurrency) {
+      this.active++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiting.indexOf(waiter);
+        if (index >= 0) this.waiting.splice(index, 1);
+        reject(abortError(signal));
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      this.waiting.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand the slot to the next waiting task, or free it
+   */
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+
+  /**
+   * Space request starts evenly so the requests-per-second budget is never exceeded
+   */
+  private async pace(signal?: AbortSignal): Promise<void> {
+    if (this.options.requestsPerSecond <= 0) return;
+
+    const interval = 1000 / this.options.requestsPerSecond;
+    const now = Date.now();
+    const start = Math.max(now, this.nextStart);
+    this.nextStart = start + interval;
+
+    if (start > now) {
+      await sleep(start - now, signal);
+    }
+  }
+}
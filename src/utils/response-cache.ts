@@ -0,0 +1,163 @@
+/**
+ * Response Cache - Persistent cache for BioStudies API GET responses
+ * Entries expire after a per-endpoint TTL and are revalidated with ETag / Last-Modified
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+
+/**
+ * Cached response with the validators needed for conditional revalidation
+ */
+export interface CacheEntry {
+  url: string;
+  status: number;
+  data: unknown;
+  etag?: string;
+  lastModified?: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * TTL rule matched against the request endpoint, first match wins
+ */
+export interface CacheTtlRule {
+  pattern: RegExp;
+  ttl: number;
+}
+
+export interface ResponseCacheOptions {
+  enabled?: boolean;
+  directory?: string;
+  maxMemoryEntries?: number;
+  defaultTtl?: number;
+  ttlRules?: CacheTtlRule[];
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Default TTLs: collection listings change rarely, studies occasionally, search results often
+ */
+export const DEFAULT_TTL_RULES: CacheTtlRule[] = [
+  { pattern: /[?&]type=collection\b/, ttl: 24 * HOUR },
+  { pattern: /^\/(?:[^/]+\/)?facets\b/, ttl: 30 * MINUTE },
+  { pattern: /^\/(?:[^/]+\/)?search\b/, ttl: 10 * MINUTE },
+  { pattern: /^\/studies\/[^/?]+\/files\b/, ttl: 6 * HOUR },
+  { pattern: /^\/studies\//, ttl: HOUR }
+];
+
+export const DEFAULT_CACHE_DIRECTORY = join(homedir(), '.cache', 'biostudies-mcp-server');
+
+export class ResponseCache {
+  private readonly enabled: boolean;
+  private readonly directory?: string;
+  private readonly maxMemoryEntries: number;
+  private readonly defaultTtl: number;
+  private readonly ttlRules: CacheTtlRule[];
+  private readonly memory = new Map<string, CacheEntry>();
+  private directoryReady?: Promise<void>;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.enabled = options.enabled ?? true;
+    this.directory = options.directory;
+    this.maxMemoryEntries = options.maxMemoryEntries ?? 500;
+    this.defaultTtl = options.defaultTtl ?? 15 * MINUTE;
+    this.ttlRules = options.ttlRules ?? DEFAULT_TTL_RULES;
+  }
+
+  /**
+   * Whether responses are cached at all
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  /**
+   * TTL in milliseconds for an endpoint (path and query relative to the API base URL)
+   */
+  ttlFor(endpoint: string): number {
+    return this.ttlRules.find(rule => rule.pattern.test(endpoint))?.ttl ?? this.defaultTtl;
+  }
+
+  /**
+   * Look up an entry in memory, then on disk; stale entries are returned for revalidation
+   */
+  async get(key: string): Promise<CacheEntry | undefined> {
+    if (!this.enabled) return undefined;
+
+    const cached = this.memory.get(key);
+    if (cached) return cached;
+
+    if (!this.directory) return undefined;
+
+    try {
+      const entry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8')) as CacheEntry;
+      this.remember(key, entry);
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Store an entry in memory and, if configured, on disk
+   * memoryOnly entries (private responses) are never written, and any copy left on disk by earlier versions is deleted
+   * Disk write failures are ignored so the cache never breaks a request
+   */
+  async set(key: string, entry: CacheEntry, memoryOnly = false): Promise<void> {
+    if (!this.enabled) return;
+
+    this.remember(key, entry);
+    if (!this.directory) return;
+    if (memoryOnly) {
+      await fs.rm(this.fileFor(key), { force: true }).catch(() => undefined);
+      return;
+    }
+
+    try {
+      this.directoryReady ??= fs.mkdir(this.directory, { recursive: true }).then(() => undefined);
+      await this.directoryReady;
+
+      const file = this.fileFor(key);
+      const tempFile = `${file}.${process.pid}.tmp`;
+      await fs.writeFile(tempFile, JSON.stringify(entry), 'utf8');
+      await fs.rename(tempFile, file);
+    } catch (error) {
+      console.error('BioStudies cache write failed:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  /**
+   * Whether an entry is still within its TTL
+   */
+  isFresh(entry: CacheEntry): boolean {
+    return entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Keep an entry in memory, evicting the least recently stored entries beyond the limit
+   */
+  private remember(key: string, entry: CacheEntry): void {
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+
+    while (this.memory.size > this.maxMemoryEntries) {
+      const oldest = this.memory.keys().next().value;
+      if (oldest === undefined) break;
+      this.memory.delete(oldest);
+    }
+  }
+
+  /**
+   * On-disk file for a cache key
+   */
+  private fileFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return join(this.directory!, `${hash}.json`);
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Retry Policy - Exponential backoff, Retry-After handling and a circuit breaker
+ * for transient BioStudies API failures
+ */
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+  maxRetryAfter: number;
+}
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;
+  cooldown: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 4,
+  baseDelay: 500,
+  maxDelay: 8000,
+  maxRetryAfter: 30000
+};
+
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  cooldown: 30000
+};
+
+/**
+ * Network failures (status 0), timeouts, throttling and gateway errors are worth retrying
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 0 || status === 408 || status === 429 || status === 500
+    || status === 502 || status === 503 || status === 504;
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date, in milliseconds
+ */
+export function parseRetryAfter(header: string | null | undefined): number | undefined {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * Exponential backoff with full jitter for the given 1-based attempt number
+ */
+export function backoffDelay(attempt: number, options: RetryOptions): number {
+  const ceiling = Math.min(options.maxDelay, options.baseDelay * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Circuit breaker that fails fast after repeated transient failures
+ * After the cooldown a single trial request is let through; its outcome closes or reopens the circuit
+ */
+export class CircuitBreaker {
+  private readonly options: CircuitBreakerOptions;
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInProgress = false;
+
+  constructor(options: Partial<CircuitBreakerOptions> = {}) {
+    this.options = { ...DEFAULT_CIRCUIT_BREAKER_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether a request may be sent now
+   */
+  canRequest(): boolean {
+    if (this.openedAt === undefined) return true;
+    if (Date.now() - this.openedAt < this.options.cooldown || this.trialInProgress) return false;
+
+    this.trialInProgress = true;
+    return true;
+  }
+
+  /**
+   * Milliseconds until the circuit lets a trial request through
+   */
+  retryAfter(): number {
+    if (this.openedAt === undefined) return 0;
+    return Math.max(0, this.openedAt + this.options.cooldown - Date.now());
+  }
+
+  /**
+   * Close the circuit after a successful request
+   */
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Release a trial request abandoned by the caller without changing the circuit state
+   */
+  recordCancellation(): void {
+    this.trialInProgress = false;
+  }
+
+  /**
+   * Count a transient failure, opening the circuit at the threshold or when a trial request fails
+   */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.trialInProgress || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+    }
+    this.trialInProgress = false;
+  }
+}
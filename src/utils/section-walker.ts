@@ -0,0 +1,115 @@
+/**
+ * Section Walker - Recursive traversal of PageTab section trees
+ * Collects every file, link and attribute together with the path of the section holding it
+ */
+
+import {
+  Attribute,
+  FileInfo,
+  Link,
+  Section,
+  SectionContents,
+  SectionSummary
+} from '../types/biostudies.js';
+
+/**
+ * Callback invoked for every section in a tree, parents before children
+ */
+export type SectionVisitor = (section: Section, path: string, depth: number) => void;
+
+/**
+ * Flatten PageTab item lists, where nested arrays represent tables
+ */
+export function flattenTable<T>(items?: Array<T | T[]>): T[] {
+  if (!items?.length) return [];
+
+  const flat: T[] = [];
+  items.forEach(item => {
+    if (Array.isArray(item)) {
+      flat.push(...item);
+    } else if (item) {
+      flat.push(item);
+    }
+  });
+  return flat;
+}
+
+/**
+ * Label of a single section within a section path, e.g. "Study" or "Author[a1]"
+ */
+export function sectionLabel(section: Section): string {
+  const type = section.type || 'Section';
+  return section.accno ? `${type}[${section.accno}]` : type;
+}
+
+/**
+ * Visit every section in the tree depth-first, including sections nested in tables
+ */
+export function walkSections(root: Section | undefined, visitor: SectionVisitor): void {
+  const visit = (section: Section, parentPath: string, depth: number) => {
+    const path = parentPath ? `${parentPath} / ${sectionLabel(section)}` : sectionLabel(section);
+    visitor(section, path, depth);
+    flattenTable(section.subsections).forEach(subsection => visit(subsection, path, depth + 1));
+  };
+
+  if (root) visit(root, '', 0);
+}
+
+/**
+ * Find the value of an attribute by name (case-insensitive); null values count as missing
+ */
+export function findAttribute(attributes: Attribute[] | undefined, name: string): string | undefined {
+  const wanted = name.toLowerCase();
+  return attributes?.find(attr => attr.name?.toLowerCase() === wanted)?.value ?? undefined;
+}
+
+/**
+ * Fill in file name and MD5 for PageTab file entries, which often only carry a path
+ * and keep checksums among their attributes; a null size or type becomes undefined
+ */
+export function normalizeFile(file: FileInfo): FileInfo {
+  const path = file.path || file.name || '';
+  return {
+    ...file,
+    path,
+    size: file.size ?? undefined,
+    type: file.type ?? undefined,
+    name: file.name || path.split('/').pop() || path,
+    md5: file.md5 || findAttribute(file.attributes, 'md5')
+  };
+}
+
+/**
+ * Collect every file, link and attribute in a section tree
+ */
+export function collectSectionContents(root: Section | undefined): SectionContents {
+  const contents: SectionContents = {
+    sections: [],
+    files: [],
+    links: [],
+    attributes: []
+  };
+
+  walkSections(root, (section, path, depth) => {
+    const files = flattenTable(section.files);
+    const links = flattenTable<Link>(section.links).filter(link => link && link.url);
+    const attributes = section.attributes || [];
+
+    const summary: SectionSummary = {
+      path,
+      depth,
+      type: section.type,
+      accno: section.accno,
+      attributeCount: attributes.length,
+      fileCount: files.length,
+      linkCount: links.length
+    };
+    contents.sections.push(summary);
+
+    files.forEach(file => contents.files.push({ ...normalizeFile(file), sectionPath: path }));
+    links.forEach(link => contents.links.push({ ...link, sectionPath: path }));
+    attributes.forEach(attr => contents.attributes.push({ ...attr, sectionPath: path }));
+  });
+
+  return contents;
+}
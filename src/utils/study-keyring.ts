@@ -0,0 +1,109 @@
+/**
+ * Study Keyring - Local store of BioStudies secret access keys for private studies
+ * Keys that opened a study are saved so they need not be supplied again; the file is readable only by its owner
+ */
+
+import { promises as fs } from 'node:fs';
+import { dirname } from 'node:path';
+
+interface KeyringEntry {
+  key: string;
+  addedAt: string;
+}
+
+/**
+ * Secret keys are opaque tokens; anything else is rejected before it reaches a URL
+ */
+const SECRET_KEY_PATTERN = /^[A-Za-z0-9._~-]{8,128}$/;
+
+export class StudyKeyring {
+  private entries?: Promise<Record<string, KeyringEntry>>;
+
+  /**
+   * A read-only keyring uses the keys in its file but never changes it; set is ignored and remove throws
+   */
+  constructor(private readonly file: string, readonly readOnly = false) {}
+
+  /**
+   * Whether a value has the shape of a secret access key
+   */
+  static isValidKey(key: string): boolean {
+    return SECRET_KEY_PATTERN.test(key);
+  }
+
+  /**
+   * Key stored for an accession
+   */
+  async get(accno: string): Promise<string | undefined> {
+    return (await this.load())[accno.toUpperCase()]?.key;
+  }
+
+  /**
+   * Store the key for an accession, replacing any previous one
+   */
+  async set(accno: string, key: string): Promise<void> {
+    if (this.readOnly) return;
+    const entries = await this.load();
+    const id = accno.toUpperCase();
+    if (entries[id]?.key === key) return;
+
+    entries[id] = { key, addedAt: new Date().toISOString() };
+    await this.save(entries);
+  }
+
+  /**
+   * Forget the key for an accession; resolves false if none was stored
+   */
+  async remove(accno: string): Promise<boolean> {
+    if (this.readOnly) {
+      throw new Error('The study keyring is read-only on this server');
+    }
+    const entries = await this.load();
+    const id = accno.toUpperCase();
+    if (!entries[id]) return false;
+
+    delete entries[id];
+    await this.save(entries);
+    return true;
+  }
+
+  /**
+   * Accessions with a stored key and when each was added; the keys themselves are not returned
+   */
+  async list(): Promise<Array<{ accno: string; addedAt: string }>> {
+    const entries = await this.load();
+    return Object.entries(entries)
+      .map(([accno, entry]) => ({ accno, addedAt: entry.addedAt }))
+      .sort((a, b) => a.accno.localeCompare(b.accno));
+  }
+
+  private load(): Promise<Record<string, KeyringEntry>> {
+    this.entries ??= (async () => {
+      try {
+        const contents = JSON.parse(await fs.readFile(this.file, 'utf8'));
+        const entries: Record<string, KeyringEntry> = {};
+        Object.entries(contents || {}).forEach(([accno, entry]: [string, any]) => {
+          if (typeof entry?.key === 'string') {
+            entries[accno.toUpperCase()] = { key: entry.key, addedAt: entry.addedAt || '' };
+          }
+        });
+        return entries;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          console.error(`Warning: could not read study keyring ${this.file}; starting with an empty keyring`);
+        }
+        return {};
+      }
+    })();
+    return this.entries;
+  }
+
+  private async save(entries: Record<string, KeyringEntry>): Promise<void> {
+    try {
+      await fs.mkdir(dirname(this.file), { recursive: true, mode: 0o700 });
+      await fs.writeFile(this.file, JSON.stringify(entries, null, 2), { mode: 0o600 });
+    } catch (error) {
+      console.error(`Warning: could not save study keyring ${this.file}:`, (error as Error).message);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import type { StudyDetails } from '../../src/types/biostudies.js';
+import { formatCitations, studyCitations } from '../../src/utils/citation-formatter.js';
+
+const STUDY: StudyDetails = {
+  accno: 'S-BSST1',
+  title: 'Growth of E_coli at 50% {oxygen} & $cost #1',
+  authors: [{ name: 'Ludwig van der Berg' }, { name: 'Smith, Jane' }, { name: 'Doe JA' }],
+  releaseDate: '2021-03-04',
+  attributes: [{ name: 'DOI', value: 'https://doi.org/10.6019/S-BSST1' }],
+  publications: [{
+    title: 'A paper',
+    authors: 'Smith J, Doe AB, et al.',
+    journal: 'Nature',
+    volume: '12',
+    issue: '3',
+    pages: '100-110',
+    year: 'May 2020',
+    pmid: '123'
+  }]
+};
+
+describe('studyCitations', () => {
+  it('cites the study as a dataset followed by its publications', () => {
+    const [dataset, article] = studyCitations(STUDY);
+    expect(dataset).toMatchObject({
+      id: 'S-BSST1',
+      kind: 'dataset',
+      year: '2021',
+      doi: '10.6019/S-BSST1',
+      url: 'https://www.ebi.ac.uk/biostudies/studies/S-BSST1'
+    });
+    expect(article).toMatchObject({ id: 'S-BSST1_pub1', kind: 'article', year: '2020', url: 'https://pubmed.ncbi.nlm.nih.gov/123/' });
+    expect(studyCitations(STUDY, false)).toHaveLength(1);
+  });
+
+  it('splits names, keeping particles with the family name', () => {
+    const [dataset, article] = studyCitations(STUDY);
+    expect(dataset.authors).toEqual([
+      { family: 'van der Berg', given: 'Ludwig' },
+      { family: 'Smith', given: 'Jane' },
+      { family: 'Doe', given: 'JA' }
+    ]);
+    expect(article.authors).toEqual([{ family: 'Smith', given: 'J' }, { family: 'Doe', given: 'AB' }]);
+  });
+});
+
+describe('formatCitations', () => {
+  it('escapes BibTeX special characters but not DOIs and URLs', () => {
+    const bibtex = formatCitations('bibtex', studyCitations(STUDY, false));
+    expect(bibtex).toContain('  title = {Growth of E\\_coli at 50\\% \\{oxygen\\} \\& \\$cost \\#1}');
+    expect(bibtex).toContain('  doi = {10.6019/S-BSST1}');
+    expect(bibtex).toContain('  url = {https://www.ebi.ac.uk/biostudies/studies/S-BSST1}');
+    expect(bibtex).toContain('  author = {van der Berg, Ludwig and Smith, Jane and Doe, JA}');
+    expect(bibtex.startsWith('@misc{S-BSST1,\n')).toBe(true);
+  });
+
+  it('writes BibTeX page ranges with an en dash', () => {
+    const bibtex = formatCitations('bibtex', studyCitations(STUDY).slice(1));
+    expect(bibtex).toContain('@article{S-BSST1_pub1,');
+    expect(bibtex).toContain('  pages = {100--110}');
+  });
+
+  it('writes RIS with start and end pages and one author per tag', () => {
+    const ris = formatCitations('ris', studyCitations(STUDY).slice(1));
+    expect(ris).toBe([
+      'TY  - JOUR',
+      'ID  - S-BSST1_pub1',
+      'AU  - Smith, J',
+      'AU  - Doe, AB',
+      'TI  - A paper',
+      'T2  - Nature',
+      'VL  - 12',
+      'IS  - 3',
+      'SP  - 100',
+      'EP  - 110',
+      'PY  - 2020',
+      'AN  - PMID:123',
+      'UR  - https://pubmed.ncbi.nlm.nih.gov/123/',
+      'ER  -',
+      ''
+    ].join('\n'));
+  });
+
+  it('writes CSL-JSON as an array', () => {
+    const [dataset] = JSON.parse(formatCitations('csl_json', studyCitations(STUDY, false)));
+    expect(dataset).toMatchObject({
+      type: 'dataset',
+      issued: { 'date-parts': [[2021]] },
+      DOI: '10.6019/S-BSST1',
+      number: 'S-BSST1'
+    });
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { buildManifest, localPath, type ManifestEntry } from '../../src/utils/download-manifest.js';
+
+const ENTRIES: ManifestEntry[] = [
+  {
+    accno: 'S-BSST1',
+    path: "data/it's here.txt",
+    url: "https://example.org/S-BSST1/Files/data/it's%20here.txt",
+    size: 10,
+    md5: 'ABCDEF0123456789ABCDEF0123456789',
+    asperaSource: '/studies/S-BSST1/Files/data/it\'s here.txt'
+  },
+  {
+    accno: 'S-BSST1',
+    path: 'readme.md',
+    url: 'https://example.org/S-BSST1/Files/readme.md'
+  }
+];
+
+describe('localPath', () => {
+  it('keeps files inside the study directory', () => {
+    expect(localPath({ accno: 'S-BSST1', path: '../../etc/passwd', url: '' })).toBe('S-BSST1/etc/passwd');
+    expect(localPath({ accno: 'S-BSST1', path: '/abs/file.txt', url: '' })).toBe('S-BSST1/abs/file.txt');
+    expect(localPath({ accno: 'S-BSST1', path: 'a/../b/./c.txt', url: '' })).toBe('S-BSST1/b/c.txt');
+  });
+});
+
+describe('buildManifest', () => {
+  it('writes an md5sum-compatible checksum file for files with a checksum', () => {
+    const manifest = buildManifest('urls', ENTRIES, 'files');
+    expect(manifest.checksums).toBe('abcdef0123456789abcdef0123456789  S-BSST1/data/it\'s here.txt\n');
+    expect(manifest.checksumCount).toBe(1);
+    expect(manifest.checksumsFilename).toBe('biostudies-files.md5');
+  });
+
+  it('leaves the checksum file empty when no file has a checksum', () => {
+    expect(buildManifest('urls', [ENTRIES[1]], 'files').checksums).toBe('');
+  });
+
+  it('quotes paths and URLs in shell scripts', () => {
+    const { manifest, manifestFilename } = buildManifest('wget', ENTRIES, 'files');
+    expect(manifestFilename).toBe('download-biostudies-files.sh');
+    expect(manifest).toContain("mkdir -p 'S-BSST1'\nmkdir -p 'S-BSST1/data'\n");
+    expect(manifest).toContain(
+      `wget --continue --tries=5 -O 'S-BSST1/data/it'\\''s here.txt' 'https://example.org/S-BSST1/Files/data/it'\\''s%20here.txt'`
+    );
+  });
+
+  it('keeps the description on its comment line', () => {
+    const { manifest } = buildManifest('curl', ENTRIES, 'files\nrm -rf ~\r\n# x');
+    const lines = manifest.split('\n');
+    expect(lines[1]).toBe('# files rm -rf ~ # x');
+    expect(lines).not.toContain('rm -rf ~');
+  });
+
+  it('adds output paths and checksums as aria2 options', () => {
+    const { manifest } = buildManifest('aria2', ENTRIES, 'files');
+    expect(manifest).toBe([
+      "https://example.org/S-BSST1/Files/data/it's%20here.txt",
+      "  out=S-BSST1/data/it's here.txt",
+      '  checksum=md5=abcdef0123456789abcdef0123456789',
+      'https://example.org/S-BSST1/Files/readme.md',
+      '  out=S-BSST1/readme.md',
+      ''
+    ].join('\n'));
+  });
+
+  it('lists Aspera source and destination pairs, skipping files without a source', () => {
+    const { manifest } = buildManifest('aspera', ENTRIES, 'files');
+    expect(manifest).toBe("/studies/S-BSST1/Files/data/it's here.txt\nS-BSST1/data/it's here.txt\n");
+  });
+
+  it('puts a URL containing a line break on a single line', () => {
+    const { manifest } = buildManifest('urls', [{ accno: 'S-BSST1', path: 'a', url: 'https://x/a\nhttps://evil/b' }], 'files');
+    expect(manifest).toBe('https://x/a https://evil/b\n');
+  });
+});
@@ -0,0 +1,128 @@
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { BioStudiesApiClient, FileResponse } from '../../src/utils/api-client.js';
+import { FileDownloader, PART_SUFFIX, type DownloadFile } from '../../src/utils/file-downloader.js';
+
+const CONTENT = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+const MD5 = createHash('md5').update(CONTENT).digest('hex');
+
+/**
+ * File server stand-in that serves CONTENT, honouring Range requests unless told otherwise
+ */
+function fileServer(options: { ignoreRange?: boolean; body?: Buffer } = {}) {
+  const starts: number[] = [];
+  const client = {
+    async openStudyFile(_accno: string, _path: string, { start = 0 }: { start?: number }): Promise<FileResponse> {
+      starts.push(start);
+      const body = options.body ?? CONTENT;
+      const partial = start > 0 && !options.ignoreRange;
+      if (partial && start >= body.length) return { error: 'HTTP 416: Range Not Satisfiable', status: 416 };
+      const status = partial ? 206 : 200;
+      return { response: new Response(new Uint8Array(partial ? body.subarray(start) : body), { status }), status };
+    },
+    categorizeFailure: () => 'network'
+  };
+  return { client: client as unknown as BioStudiesApiClient, starts };
+}
+
+describe('FileDownloader', () => {
+  let directory: string;
+  const file: DownloadFile = { name: 'data.txt', path: 'sub/data.txt', size: CONTENT.length, md5: MD5.toUpperCase() };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'biostudies-download-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  function download(client: BioStudiesApiClient, files: DownloadFile[] = [file]) {
+    const downloader = new FileDownloader(client, { directory, timeout: 5000, retry: { maxAttempts: 1 } });
+    return downloader.download('S-BSST1', files, { directory, concurrency: 1, verify: true });
+  }
+
+  it('downloads a file and verifies its MD5 checksum', async () => {
+    const { client, starts } = fileServer();
+    const result = await download(client);
+
+    expect(result.items[0]).toMatchObject({ status: 'downloaded', md5Verified: true, bytesTransferred: CONTENT.length });
+    expect(starts).toEqual([0]);
+    expect(await fs.readFile(join(directory, 'sub/data.txt'))).toEqual(CONTENT);
+    await expect(fs.access(join(directory, 'sub/data.txt' + PART_SUFFIX))).rejects.toThrow();
+  });
+
+  it('resumes a partial file with a Range request', async () => {
+    await fs.mkdir(join(directory, 'sub'));
+    await fs.writeFile(join(directory, 'sub/data.txt' + PART_SUFFIX), CONTENT.subarray(0, 10));
+    const { client, starts } = fileServer();
+    const result = await download(client);
+
+    expect(starts).toEqual([10]);
+    expect(result.items[0]).toMatchObject({ status: 'resumed', md5Verified: true, bytesTransferred: CONTENT.length - 10 });
+    expect(result.resumed).toBe(1);
+    expect(await fs.readFile(join(directory, 'sub/data.txt'))).toEqual(CONTENT);
+  });
+
+  it('starts over when the server ignores the Range header', async () => {
+    await fs.mkdir(join(directory, 'sub'));
+    await fs.writeFile(join(directory, 'sub/data.txt' + PART_SUFFIX), CONTENT.subarray(0, 10));
+    const { client } = fileServer({ ignoreRange: true });
+    const result = await download(client);
+
+    expect(result.items[0].status).toBe('downloaded');
+    expect(await fs.readFile(join(directory, 'sub/data.txt'))).toEqual(CONTENT);
+  });
+
+  it('completes a partial file that already holds every byte', async () => {
+    await fs.mkdir(join(directory, 'sub'));
+    await fs.writeFile(join(directory, 'sub/data.txt' + PART_SUFFIX), CONTENT);
+    const { client, starts } = fileServer();
+    const result = await download(client);
+
+    expect(starts).toEqual([]);
+    expect(result.items[0]).toMatchObject({ status: 'resumed', md5Verified: true, bytesTransferred: 0 });
+  });
+
+  it('rejects and removes a file whose checksum does not match', async () => {
+    const corrupt = Buffer.from(CONTENT);
+    corrupt[0] = 0x21;
+    const { client } = fileServer({ body: corrupt });
+    const result = await download(client);
+
+    expect(result.items[0]).toMatchObject({ status: 'failed', category: 'checksum_mismatch', md5Verified: false });
+    await expect(fs.access(join(directory, 'sub/data.txt' + PART_SUFFIX))).rejects.toThrow();
+    await expect(fs.access(join(directory, 'sub/data.txt'))).rejects.toThrow();
+  });
+
+  it('skips a complete file from an earlier run', async () => {
+    await fs.mkdir(join(directory, 'sub'));
+    await fs.writeFile(join(directory, 'sub/data.txt'), CONTENT);
+    const { client, starts } = fileServer();
+    const result = await download(client);
+
+    expect(starts).toEqual([]);
+    expect(result.items[0]).toMatchObject({ status: 'skipped', md5Verified: true });
+  });
+
+  it('refuses paths that leave the study directory', async () => {
+    const { client, starts } = fileServer();
+    const result = await download(client, [{ name: 'passwd', path: '../../etc/passwd' }]);
+
+    expect(starts).toEqual([]);
+    expect(result.items[0]).toMatchObject({ status: 'failed', category: 'invalid_path' });
+  });
+});
+
+describe('FileDownloader.resolveDirectory', () => {
+  it('keeps directories inside the download directory', () => {
+    const downloader = new FileDownloader(fileServer().client, { directory: '/data/downloads', timeout: 5000 });
+    expect(downloader.resolveDirectory('project')).toBe('/data/downloads/project');
+    expect(downloader.studyDirectory('S-BSST1')).toBe('/data/downloads/S-BSST1');
+    expect(() => downloader.resolveDirectory('../etc')).toThrow('Download directory must be inside /data/downloads');
+    expect(() => downloader.resolveDirectory('/etc')).toThrow();
+  });
+});
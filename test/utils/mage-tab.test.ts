@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildExperimentDesign,
+  classifyColumn,
+  isIdfFile,
+  isSdrfFile,
+  parseIdf,
+  parseMageTabRows,
+  parseSdrf,
+  querySamples,
+  sampleRecords
+} from '../../src/utils/mage-tab.js';
+
+const IDF = [
+  '﻿Investigation Title\tLiver response to diet',
+  'Experiment Description\tMice fed two diets',
+  'Experimental Design\tgrowth condition design',
+  'Experimental Factor Name\tdiet\ttime',
+  'Experimental Factor Type\tdiet\ttime',
+  'Person Last Name\tSmith\tDoe',
+  'Person First Name\tJane\tJohn',
+  'Person Roles\tsubmitter;investigator\t',
+  'Protocol Name\tP-1\tP-2',
+  'Protocol Type\tsample collection protocol\tnucleic acid sequencing protocol',
+  'Protocol Parameters\t\tread length; instrument',
+  'PubMed ID\t12345',
+  'SDRF File\tE-MTAB-1.sdrf.txt',
+  'Comment[ArrayExpressAccession]\tE-MTAB-1',
+  '# a comment line',
+  'Public Release Date\t2020-01-01'
+].join('\n');
+
+const SDRF = [
+  ['Source Name', 'Characteristics[organism]', 'Characteristics [organism part]', 'Characteristics[age]', 'Unit[time unit]',
+    'Protocol REF', 'Assay Name', 'Technology Type', 'Comment[FASTQ_URI]', 'Derived Array Data File', 'Factor Value[diet]'],
+  ['mouse 1', 'Mus musculus', 'liver', '8', 'week', 'P-1', 'run 1', 'sequencing assay', 'ftp://x/run1_1.fq.gz', 'counts.txt', 'high fat'],
+  ['mouse 1', 'Mus musculus', 'liver', '8', 'week', 'P-2', 'run 1', 'sequencing assay', 'ftp://x/run1_2.fq.gz', 'counts.txt', 'high fat'],
+  ['mouse 2', 'Mus musculus', 'Liver', '8', 'week', 'P-1', 'run 2', 'sequencing assay', 'ftp://x/run2_1.fq.gz', 'counts.txt', 'chow'],
+  ['mouse 3', 'Mus musculus', 'liver', '10', 'week', 'P-1', 'run 3', 'sequencing assay', 'ftp://x/run3_1.fq.gz', 'counts.txt', 'chow']
+].map(row => row.join('\t')).join('\r\n') + '\r\n';
+
+function design() {
+  return buildExperimentDesign('E-MTAB-1', parseIdf(IDF), 'E-MTAB-1.idf.txt', [parseSdrf('E-MTAB-1.sdrf.txt', SDRF)]);
+}
+
+describe('parseMageTabRows', () => {
+  it('unquotes cells, drops comment lines and trailing empty cells', () => {
+    const rows = parseMageTabRows('﻿a\t"b ""quoted"""\t\t\n# skipped\n"c"\t d \t');
+    expect(rows).toEqual([['a', 'b "quoted"'], ['c', 'd']]);
+  });
+});
+
+describe('file name conventions', () => {
+  it('recognises IDF and SDRF files', () => {
+    expect(isIdfFile('E-MTAB-1.idf.txt')).toBe(true);
+    expect(isSdrfFile('E-MTAB-1.sdrf.txt')).toBe(true);
+    expect(isSdrfFile('E-MTAB-1.idf.txt')).toBe(false);
+    expect(isIdfFile('counts.txt')).toBe(false);
+  });
+});
+
+describe('parseIdf', () => {
+  it('reads tags ignoring case and spacing, with one item per column', () => {
+    const idf = parseIdf(IDF);
+    expect(idf.title).toBe('Liver response to diet');
+    expect(idf.experimentalFactors).toEqual([{ name: 'diet', type: 'diet' }, { name: 'time', type: 'time' }]);
+    expect(idf.persons).toEqual([
+      { name: 'Jane Smith', roles: ['submitter', 'investigator'] },
+      { name: 'John Doe' }
+    ]);
+    expect(idf.protocols[1]).toEqual({
+      name: 'P-2',
+      type: 'nucleic acid sequencing protocol',
+      parameters: ['read length', 'instrument']
+    });
+    expect(idf.publications).toEqual([{ pubmedId: '12345' }]);
+    expect(idf.sdrfFiles).toEqual(['E-MTAB-1.sdrf.txt']);
+    expect(idf.comments).toEqual({ ArrayExpressAccession: 'E-MTAB-1' });
+    expect(idf.publicReleaseDate).toBe('2020-01-01');
+  });
+
+  it('leaves tags it does not map in fields', () => {
+    const idf = parseIdf(IDF);
+    expect(Object.keys(idf.fields)).toEqual([]);
+    expect(parseIdf('Term Source Name\tEFO').fields).toEqual({ 'Term Source Name': ['EFO'] });
+  });
+});
+
+describe('classifyColumn', () => {
+  it('classifies nodes, bracketed attributes and plain attributes', () => {
+    expect(classifyColumn('Hybridization Name')).toMatchObject({ kind: 'node', name: 'hybridizationname' });
+    expect(classifyColumn('Characteristics [organism part]')).toMatchObject({ kind: 'characteristic', name: 'organism part' });
+    expect(classifyColumn('FactorValue[diet]')).toMatchObject({ kind: 'factor', name: 'diet' });
+    expect(classifyColumn('Comment[FASTQ_URI]')).toMatchObject({ kind: 'comment', name: 'FASTQ_URI' });
+    expect(classifyColumn('Protocol REF')).toMatchObject({ kind: 'attribute', name: 'protocolref' });
+  });
+});
+
+describe('parseSdrf', () => {
+  it('pads short rows to the header width and skips blank lines', () => {
+    const table = parseSdrf('x.sdrf.txt', 'Source Name\tCharacteristics[organism]\n\ns1\n');
+    expect(table.rows).toEqual([['s1', '']]);
+  });
+});
+
+describe('buildExperimentDesign', () => {
+  it('merges rows of the same source and assay', () => {
+    const result = design();
+    expect(result.sampleCount).toBe(3);
+    expect(result.assayCount).toBe(3);
+
+    const run1 = result.assays.find(assay => assay.name === 'run 1')!;
+    expect(run1.sources).toEqual(['mouse 1']);
+    expect(run1.protocols).toEqual(['P-1', 'P-2']);
+    expect(run1.technologyType).toBe('sequencing assay');
+    expect(run1.files).toEqual([
+      { column: 'Comment[FASTQ_URI]', name: 'ftp://x/run1_1.fq.gz', kind: 'raw' },
+      { column: 'Derived Array Data File', name: 'counts.txt', kind: 'processed' },
+      { column: 'Comment[FASTQ_URI]', name: 'ftp://x/run1_2.fq.gz', kind: 'raw' }
+    ]);
+  });
+
+  it('appends units to the value they qualify', () => {
+    const mouse = design().sources.find(source => source.name === 'mouse 3')!;
+    expect(mouse.characteristics.age).toBe('10 week');
+  });
+
+  it('lists IDF factors first, then the values seen in the SDRF', () => {
+    const result = design();
+    expect(result.factors).toEqual([{ name: 'diet', values: ['high fat', 'chow'] }, { name: 'time', values: [] }]);
+    expect(result.characteristics.map(variable => variable.name)).toEqual(['organism', 'organism part', 'age']);
+  });
+});
+
+describe('sampleRecords', () => {
+  it('joins samples with their assays and distinct raw and processed files', () => {
+    const [mouse1] = sampleRecords(design());
+    expect(mouse1).toMatchObject({
+      name: 'mouse 1',
+      assays: ['run 1'],
+      factorValues: { diet: 'high fat' },
+      rawFiles: ['ftp://x/run1_1.fq.gz', 'ftp://x/run1_2.fq.gz'],
+      processedFiles: ['counts.txt']
+    });
+  });
+});
+
+describe('querySamples', () => {
+  it('filters on column names and values ignoring case', () => {
+    const result = querySamples(design(), { filters: { 'Factor Value[DIET]': ['Chow'] } });
+    expect(result.samples.map(sample => sample.name)).toEqual(['mouse 2', 'mouse 3']);
+    expect(result.total).toBe(3);
+  });
+
+  it('groups samples, keeping values as written', () => {
+    const result = querySamples(design(), { groupBy: ['organism_part'] });
+    expect(result.groups).toEqual([
+      { values: { 'organism part': 'liver' }, sampleCount: 2, assayCount: 2, samples: ['mouse 1', 'mouse 3'] },
+      { values: { 'organism part': 'Liver' }, sampleCount: 1, assayCount: 1, samples: ['mouse 2'] }
+    ]);
+  });
+
+  it('rejects unknown columns, listing the available ones', () => {
+    expect(() => querySamples(design(), { filters: { strain: ['C57BL/6'] } }))
+      .toThrow('Unknown sample column "strain". Available: organism, organism part, age, diet, time');
+  });
+});
@@ -0,0 +1,103 @@
+import { gzipSync } from 'node:zlib';
+import { ReadableStream } from 'node:stream/web';
+import { describe, expect, it } from 'vitest';
+import { findMatrixCandidates, scanMatrix, type MatrixScanOptions } from '../../src/utils/matrix-preview.js';
+
+/**
+ * Body that delivers the data in small chunks, like a network response
+ */
+function body(data: string | Uint8Array, chunkSize = 7): ReadableStream<Uint8Array> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) return controller.close();
+      controller.enqueue(bytes.slice(offset, offset += chunkSize));
+    }
+  });
+}
+
+function scan(data: string | Uint8Array, options: Partial<MatrixScanOptions> = {}) {
+  return scanMatrix(body(data), { name: 'matrix.tsv', maxBytes: 1024 * 1024, previewRows: 2, idleTimeout: 5000, ...options });
+}
+
+describe('scanMatrix', () => {
+  it('recognises raw counts and summarizes columns', async () => {
+    const result = await scan('gene\ts1\ts2\nA\t0\t12\nB\t5\tNA\nC\t7\t3\n');
+    expect(result.valueScale).toBe('integer_counts');
+    expect(result.rowCount).toBe(3);
+    expect(result.complete).toBe(true);
+    expect(result.preview).toEqual([['A', '0', '12'], ['B', '5', 'NA']]);
+    expect(result.columns.map(column => column.role)).toEqual(['label', 'value', 'value']);
+    expect(result.columns[1].stats).toMatchObject({ numeric: 3, zeros: 1, min: 0, max: 7, mean: 4 });
+    expect(result.columns[2].stats.missing).toBe(1);
+  });
+
+  it('recognises log-transformed values', async () => {
+    expect((await scan('gene\ts1\nA\t-1.5\nB\t8.25\n')).valueScale).toBe('log');
+  });
+
+  it('recognises linear values', async () => {
+    expect((await scan('gene\ts1\nA\t0.5\nB\t1520.75\n')).valueScale).toBe('linear');
+  });
+
+  it('reports text-only tables as non-numeric', async () => {
+    expect((await scan('gene\tsymbol\nA\tTP53\n')).valueScale).toBe('non_numeric');
+  });
+
+  it('adds the missing row-name header of R tables', async () => {
+    const result = await scan('s1,s2\nA,1,2\n', { name: 'counts.csv' });
+    expect(result.delimiter).toBe(',');
+    expect(result.columns.map(column => column.header)).toEqual(['', 's1', 's2']);
+  });
+
+  it('reads quantitation types under a MAGE-TAB matrix header', async () => {
+    const result = await scan('Hybridization REF\tassay 1\nReporter REF\tRMA\nP1\t7.5\n');
+    expect(result.rowCount).toBe(1);
+    expect(result.columns[1]).toMatchObject({ header: 'assay 1', quantitationType: 'RMA', role: 'value' });
+  });
+
+  it('stops at maxBytes and estimates the row count from the file size', async () => {
+    const text = 'gene\ts1\n' + Array.from({ length: 100 }, (_, i) => `G${i}\t${i}`).join('\n') + '\n';
+    const result = await scan(text, { maxBytes: 200, size: 400 });
+    expect(result.complete).toBe(false);
+    expect(result.bytesScanned).toBe(200);
+    expect(result.estimatedRows).toBe(result.rowCount * 2);
+  });
+
+  it('decompresses gzip files, including a truncated stream', async () => {
+    const text = 'gene\ts1\n' + Array.from({ length: 2000 }, (_, i) => `G${i}\t${i}`).join('\n') + '\n';
+    const gzipped = gzipSync(text);
+
+    const full = await scan(gzipped, { name: 'counts.tsv.gz', maxBytes: gzipped.length + 1 });
+    expect(full).toMatchObject({ compressed: true, complete: true, rowCount: 2000, valueScale: 'integer_counts' });
+
+    const partial = await scan(gzipped, { name: 'counts.tsv.gz', maxBytes: Math.floor(gzipped.length / 2), size: gzipped.length });
+    expect(partial.complete).toBe(false);
+    expect(partial.rowCount).toBeGreaterThan(0);
+    expect(partial.rowCount).toBeLessThan(2000);
+  });
+
+  it('gives up when the body stalls', async () => {
+    const stalled = new ReadableStream<Uint8Array>({ pull: () => new Promise(() => undefined) });
+    await expect(scanMatrix(stalled, { name: 'm.tsv', maxBytes: 100, previewRows: 1, idleTimeout: 20 }))
+      .rejects.toThrow('No data received for 20 ms');
+  });
+});
+
+describe('findMatrixCandidates', () => {
+  it('ranks SDRF-listed files first and archives last, skipping MAGE-TAB files', () => {
+    const files = [
+      { name: 'processed.zip', path: 'processed.zip' },
+      { name: 'normalized_expression.txt', path: 'data/normalized_expression.txt' },
+      { name: 'samples.txt', path: 'samples.txt' },
+      { name: 'E-MTAB-1.sdrf.txt', path: 'E-MTAB-1.sdrf.txt' },
+      { name: 'Results.tsv', path: 'Results.tsv' }
+    ];
+    expect(findMatrixCandidates(files, ['ftp://x/results.tsv', 'E-MTAB-1.sdrf.txt'])).toEqual([
+      { path: 'Results.tsv', name: 'Results.tsv', size: undefined, source: 'sdrf', previewable: true },
+      { path: 'data/normalized_expression.txt', name: 'normalized_expression.txt', size: undefined, source: 'file_name', previewable: true },
+      { path: 'processed.zip', name: 'processed.zip', size: undefined, source: 'file_name', previewable: false }
+    ]);
+  });
+});